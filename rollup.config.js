@@ -22,65 +22,70 @@ function getSourceFiles(dir, fileList = []) {
 
 const sourceFiles = getSourceFiles(join(__dirname, 'src'));
 
-// Create a rollup config for each source file
-const configs = sourceFiles.flatMap(file => {
-  const relativePath = file.replace(join(__dirname, 'src'), '').replace(/\\/g, '/');
-  const fileName = basename(file, extname(file));
-  const outputDir = join(__dirname, 'dist', dirname(relativePath));
+// Every source file is an entry point. Modules are preserved instead of bundled into each entry,
+// so all entries share one copy of every module (error classes stay `instanceof` compatible across subpaths)
+const input = Object.fromEntries(sourceFiles.map(file => {
+  const relativePath = file.replace(join(__dirname, 'src'), '').replace(/\\/g, '/').replace(/^\//, '');
+  return [join(dirname(relativePath), basename(file, extname(file))), file];
+}));
 
-  return [
-    // ESM build
-    {
-      input: file,
-      output: {
-        file: join(outputDir, `${fileName}.js`),
-        format: 'es',
-        sourcemap: true,
-        preserveModules: false, // Bundle for better tree shaking
-      },
-      plugins: [
-        typescript({
-          tsconfig: './tsconfig.json',
-          declaration: false,
-          declarationMap: false,
-        }),
-      ],
-      external: [], // No external dependencies for now
-      onwarn(warning, warn) {
-        // Suppress empty chunk warnings for files that only export types/interfaces
-        if (warning.code === 'EMPTY_BUNDLE') {
-          return;
-        }
-        warn(warning);
-      },
+const configs = [
+  // ESM build
+  {
+    input,
+    output: {
+      dir: join(__dirname, 'dist'),
+      format: 'es',
+      sourcemap: true,
+      preserveModules: true,
+      preserveModulesRoot: 'src',
+      entryFileNames: '[name].js',
     },
-    // CJS build
-    {
-      input: file,
-      output: {
-        file: join(outputDir, `${fileName}.cjs`),
-        format: 'cjs',
-        sourcemap: true,
-        exports: 'named',
-      },
-      plugins: [
-        typescript({
-          tsconfig: './tsconfig.json',
-          declaration: false,
-          declarationMap: false,
-        }),
-      ],
-      external: [],
-      onwarn(warning, warn) {
-        // Suppress empty chunk warnings for files that only export types/interfaces
-        if (warning.code === 'EMPTY_BUNDLE') {
-          return;
-        }
-        warn(warning);
-      },
+    plugins: [
+      typescript({
+        tsconfig: './tsconfig.json',
+        declaration: false,
+        declarationMap: false,
+      }),
+    ],
+    external: [/^node:/], // Node built-ins, only used by the CLI
+    onwarn(warning, warn) {
+      // Suppress empty chunk warnings for files that only export types/interfaces
+      if (warning.code === 'EMPTY_BUNDLE') {
+        return;
+      }
+      warn(warning);
     },
-  ];
-});
+  },
+  // CJS build
+  {
+    input,
+    output: {
+      dir: join(__dirname, 'dist'),
+      format: 'cjs',
+      sourcemap: true,
+      exports: 'named',
+      preserveModules: true,
+      preserveModulesRoot: 'src',
+      entryFileNames: '[name].cjs',
+    },
+    plugins: [
+      typescript({
+        tsconfig: './tsconfig.json',
+        declaration: false,
+        declarationMap: false,
+      }),
+    ],
+    external: [/^node:/],
+    onwarn(warning, warn) {
+      // Suppress empty chunk warnings for files that only export types/interfaces
+      if (warning.code === 'EMPTY_BUNDLE') {
+        return;
+      }
+      warn(warning);
+    },
+  },
+];
 
 export default configs;
 
@@ -0,0 +1,465 @@
+import type { SerializedState, SerializedStateMachine } from './tsm';
+
+/**
+ * A state timeout whose `expireTo` can never be taken, it would only report an error when it expires
+ */
+export interface InvalidTimeout<StateEnum> {
+    state: StateEnum;
+    /** Timer id, left out for the default timeout */
+    id?: string;
+    expireTo: StateEnum;
+    /** `unknown-state`: expireTo is not part of the machine, `missing-edge`: no transition from the state (or its parents) to expireTo */
+    reason: 'unknown-state' | 'missing-edge';
+}
+
+/**
+ * Result of a static analysis of the transition graph. Guards are assumed to pass
+ */
+export interface MachineAnalysis<StateEnum> {
+    /** Every state of the machine */
+    states: StateEnum[];
+    /** States that cannot be reached from the initial state */
+    unreachable: StateEnum[];
+    /** Atomic states without outgoing transitions (also none inherited from their parents) */
+    deadEnds: StateEnum[];
+    /** Timeouts whose expireTo is not a valid transition */
+    invalidTimeouts: Array<InvalidTimeout<StateEnum>>;
+    /** Strongly connected components, every state appears in exactly one */
+    stronglyConnectedComponents: StateEnum[][];
+    /** Elementary cycles, each listed once starting from its first state in `states` order (bounded by `maxCycles`) */
+    cycles: StateEnum[][];
+}
+
+/**
+ * Options for analyze()
+ */
+export interface AnalyzeOptions {
+    /** Stop enumerating cycles after this many (default: 100) */
+    maxCycles?: number;
+}
+
+/**
+ * Options for validate()
+ */
+export interface ValidateOptions<StateEnum> {
+    /** Final states that are expected to have no outgoing transitions */
+    terminal?: StateEnum[];
+    /** States that are allowed to be unreachable from the initial state */
+    allowUnreachable?: StateEnum[];
+    /** Report cycles as problems, for machines that must always terminate (default: false) */
+    forbidCycles?: boolean;
+    /** Throw an error listing every problem instead of returning them */
+    throwOnInvalid?: boolean;
+}
+
+/**
+ * Adjacency view of a serialized machine where transitions defined on a compound state
+ * also leave each of its descendants
+ */
+class Graph<StateEnum, EventEnum> {
+    public readonly states: StateEnum[];
+    private _byState: Map<StateEnum, SerializedState<StateEnum, EventEnum>>;
+
+    constructor(machine: SerializedStateMachine<StateEnum, EventEnum>) {
+        this._byState = new Map(machine.states.map(state => [state.state, state]));
+        this.states = machine.states.map(state => state.state);
+    }
+
+    has(state: StateEnum): boolean {
+        return this._byState.has(state);
+    }
+
+    get(state: StateEnum): SerializedState<StateEnum, EventEnum> | undefined {
+        return this._byState.get(state);
+    }
+
+    /** The state followed by its ancestors, innermost first */
+    lineage(state: StateEnum): StateEnum[] {
+        const lineage = [state];
+        for (let parent = this.get(state)?.parent; parent !== undefined; parent = this.get(parent)?.parent) {
+            lineage.push(parent);
+        }
+        return lineage;
+    }
+
+    /** Targets of the transitions leaving a state, including the ones inherited from its parents */
+    successors(state: StateEnum): StateEnum[] {
+        const targets: StateEnum[] = [];
+        for (const source of this.lineage(state)) {
+            for (const to of this.get(source)?.toStates ?? []) {
+                if (!targets.includes(to)) targets.push(to);
+            }
+        }
+        return targets;
+    }
+
+    /**
+     * States activated along with a state: its ancestors, its default descendants
+     * and the other regions of its parallel ancestors with their default descendants
+     */
+    activatedWith(state: StateEnum): StateEnum[] {
+        const lineage = this.lineage(state);
+        const activated = [...lineage];
+        const addDefaults = (current: StateEnum) => {
+            const compound = this.get(current)?.compound;
+            if (!compound) return;
+
+            for (const child of compound.parallel ? compound.children : [compound.initial]) {
+                if (!activated.includes(child)) activated.push(child);
+                addDefaults(child);
+            }
+        };
+        addDefaults(state);
+
+        for (const ancestor of lineage.slice(1)) {
+            const compound = this.get(ancestor)?.compound;
+            if (!compound?.parallel) continue;
+
+            for (const region of compound.children.filter(child => !lineage.includes(child))) {
+                if (!activated.includes(region)) activated.push(region);
+                addDefaults(region);
+            }
+        }
+        return activated;
+    }
+}
+
+/**
+ * Analyzes a serialized machine: reachability, dead ends, invalid timeouts, strongly connected components and cycles.
+ * Guards are assumed to pass, so a reachable state may still be blocked at runtime
+ * @param machine Output of `serializeStateMachine()`
+ * @param options Optional configuration (maxCycles: bound on the number of cycles listed)
+ * @returns The analysis report
+ *
+ * @example
+ * const { unreachable, deadEnds } = analyzeMachine(JSON.parse(fs.readFileSync('machine.json', 'utf8')));
+ */
+export function analyzeMachine<StateEnum, EventEnum>(
+    machine: SerializedStateMachine<StateEnum, EventEnum>,
+    options?: AnalyzeOptions,
+): MachineAnalysis<StateEnum> {
+    const graph = new Graph(machine);
+    const components = stronglyConnectedComponents(graph);
+
+    // Reachability: entering a state also activates its parents and default children
+    const reachable = new Set<StateEnum>();
+    const queue: StateEnum[] = [machine.initial];
+    while (queue.length > 0) {
+        const state = queue.shift() as StateEnum;
+        for (const activated of graph.activatedWith(state)) {
+            if (reachable.has(activated)) continue;
+            reachable.add(activated);
+            queue.push(...graph.successors(activated));
+        }
+    }
+
+    const deadEnds = graph.states.filter(state => !graph.get(state)?.compound && graph.successors(state).length === 0);
+
+    const invalidTimeouts: Array<InvalidTimeout<StateEnum>> = [];
+    for (const state of machine.states) {
+        const timers: Array<{ id?: string; expireTo?: StateEnum }> = [...(state.timeout ? [state.timeout] : []), ...(state.timers ?? [])];
+        for (const { id, expireTo } of timers) {
+            if (expireTo === undefined) continue;
+
+            const reason = !graph.has(expireTo) ? 'unknown-state'
+                : !graph.successors(state.state).includes(expireTo) ? 'missing-edge'
+                : undefined;
+            if (reason) invalidTimeouts.push(id === undefined ? { state: state.state, expireTo, reason } : { state: state.state, id, expireTo, reason });
+        }
+    }
+
+    return {
+        states: [...graph.states],
+        unreachable: graph.states.filter(state => !reachable.has(state)),
+        deadEnds,
+        invalidTimeouts,
+        stronglyConnectedComponents: components,
+        cycles: elementaryCycles(graph, components, options?.maxCycles ?? 100),
+    };
+}
+
+/**
+ * Lists the problems of a serialized machine: unreachable states, unexpected dead ends, invalid timeouts
+ * and, with `forbidCycles`, cycles
+ * @param machine Output of `serializeStateMachine()`
+ * @param options Optional configuration (terminal, allowUnreachable, forbidCycles, throwOnInvalid)
+ * @returns One message per problem, empty when the machine is valid
+ * @throws {Error} With every problem listed if throwOnInvalid is set and there are problems
+ */
+export function validateMachine<StateEnum, EventEnum>(
+    machine: SerializedStateMachine<StateEnum, EventEnum>,
+    options?: ValidateOptions<StateEnum>,
+): string[] {
+    const analysis = analyzeMachine(machine, { maxCycles: 0 });
+    const problems: string[] = [];
+
+    for (const state of analysis.unreachable) {
+        if (!options?.allowUnreachable?.includes(state)) problems.push(`State ${state} is unreachable from ${machine.initial}`);
+    }
+    for (const state of analysis.deadEnds) {
+        if (!options?.terminal?.includes(state)) problems.push(`State ${state} has no outgoing transitions`);
+    }
+    for (const { state, id, expireTo, reason } of analysis.invalidTimeouts) {
+        const timer = id === undefined ? 'Timeout' : `Timer ${id}`;
+        problems.push(reason === 'unknown-state'
+            ? `${timer} of state ${state} expires to unknown state ${expireTo}`
+            : `${timer} of state ${state} expires to ${expireTo} but there is no transition from ${state} to ${expireTo}`
+        );
+    }
+    if (options?.forbidCycles) {
+        // A cycle exists exactly when a component is cyclic, only then is one looked for to show it
+        const graph = new Graph(machine);
+        const cyclic = analysis.stronglyConnectedComponents.filter(component => isCyclic(graph, component));
+        const [cycle] = cyclic.length > 0 ? elementaryCycles(graph, cyclic, 1) : [];
+        if (cycle) problems.push(`Machine contains a cycle: ${[...cycle, cycle[0]].join(' -> ')}`);
+    }
+
+    if (options?.throwOnInvalid && problems.length > 0) {
+        throw new Error(`Invalid state machine:\n- ${problems.join('\n- ')}`);
+    }
+
+    return problems;
+}
+
+/**
+ * Shortest sequence of transitions between two states (breadth first, guards are assumed to pass).
+ * With nested states the path may end with an ancestor of `to` when entering it activates `to` by default
+ * @param machine Output of `serializeStateMachine()`
+ * @param from Start state
+ * @param to Target state
+ * @returns The states visited, starting with `from`, or undefined if `to` cannot be reached
+ */
+export function findShortestPath<StateEnum, EventEnum>(
+    machine: SerializedStateMachine<StateEnum, EventEnum>,
+    from: StateEnum,
+    to: StateEnum,
+): StateEnum[] | undefined {
+    const graph = new Graph(machine);
+    if (graph.activatedWith(from).includes(to)) return [from];
+
+    const parents = new Map<StateEnum, StateEnum>();
+    const queue: StateEnum[] = [from];
+    while (queue.length > 0) {
+        const state = queue.shift() as StateEnum;
+        const targets = graph.activatedWith(state).flatMap(active => graph.successors(active));
+
+        for (const next of targets) {
+            if (next === from || parents.has(next)) continue;
+            parents.set(next, state);
+
+            if (graph.activatedWith(next).includes(to)) {
+                const path = [next];
+                for (let step = state; step !== from; step = parents.get(step) as StateEnum) path.unshift(step);
+                return [from, ...path];
+            }
+            queue.push(next);
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Options for findAllPaths()
+ */
+export interface FindPathsOptions {
+    /** Return at most this many routes, the shortest ones (default: 100) */
+    maxPaths?: number;
+    /** Ignore routes visiting more states than this (default: no limit) */
+    maxLength?: number;
+}
+
+/**
+ * Every route between two states that does not visit a state twice, shortest first (guards are assumed to pass).
+ * Like findShortestPath(), a route may end with an ancestor of `to` when entering it activates `to` by default
+ * @param machine Output of `serializeStateMachine()`
+ * @param from Start state
+ * @param to Target state
+ * @param options Optional configuration (maxPaths, maxLength)
+ * @returns The routes, each starting with `from`, empty if `to` cannot be reached
+ *
+ * @example
+ * findAllPaths(checkoutFSM.serializeStateMachine(), State.Cart, State.Paid);
+ * // [[Cart, Payment, Paid], [Cart, Address, Payment, Paid]]
+ */
+export function findAllPaths<StateEnum, EventEnum>(
+    machine: SerializedStateMachine<StateEnum, EventEnum>,
+    from: StateEnum,
+    to: StateEnum,
+    options?: FindPathsOptions,
+): StateEnum[][] {
+    const graph = new Graph(machine);
+    if (graph.activatedWith(from).includes(to)) return [[from]];
+
+    const maxPaths = options?.maxPaths ?? 100;
+    const maxLength = options?.maxLength ?? Infinity;
+    const targets = new Map(graph.states.map(state => [
+        state,
+        [...new Set(graph.activatedWith(state).flatMap(active => graph.successors(active)))],
+    ]));
+    const ends = new Set(graph.states.filter(state => graph.activatedWith(state).includes(to)));
+
+    // Fewest transitions from each state to a route end, to prune the routes that cannot end in time
+    const sources = new Map<StateEnum, StateEnum[]>();
+    for (const [state, nexts] of targets) {
+        for (const next of nexts) sources.set(next, [...(sources.get(next) ?? []), state]);
+    }
+    const distance = new Map<StateEnum, number>([...ends].map(state => [state, 0]));
+    const queue = [...ends];
+    while (queue.length > 0) {
+        const state = queue.shift() as StateEnum;
+        for (const source of sources.get(state) ?? []) {
+            if (distance.has(source)) continue;
+            distance.set(source, (distance.get(state) as number) + 1);
+            queue.push(source);
+        }
+    }
+
+    const paths: StateEnum[][] = [];
+    const path: StateEnum[] = [from];
+
+    // Routes of exactly `steps` transitions, searched for each length in turn so the shortest come first
+    const search = (state: StateEnum, steps: number): void => {
+        for (const next of targets.get(state) ?? []) {
+            if (paths.length >= maxPaths) return;
+            if (path.includes(next) || (distance.get(next) ?? Infinity) > steps - 1) continue;
+
+            path.push(next);
+            if (ends.has(next)) {
+                if (steps === 1) paths.push([...path]);
+            } else {
+                search(next, steps - 1);
+            }
+            path.pop();
+        }
+    };
+    for (let steps = 1; steps < Math.min(maxLength, graph.states.length) && paths.length < maxPaths; steps++) {
+        search(from, steps);
+    }
+
+    return paths;
+}
+
+/**
+ * Tarjan's algorithm
+ */
+function stronglyConnectedComponents<StateEnum, EventEnum>(graph: Graph<StateEnum, EventEnum>): StateEnum[][] {
+    const indices = new Map<StateEnum, number>();
+    const lowLinks = new Map<StateEnum, number>();
+    const stack: StateEnum[] = [];
+    const onStack = new Set<StateEnum>();
+    const components: StateEnum[][] = [];
+
+    const connect = (state: StateEnum) => {
+        indices.set(state, indices.size);
+        lowLinks.set(state, indices.get(state) as number);
+        stack.push(state);
+        onStack.add(state);
+
+        for (const next of graph.successors(state)) {
+            if (!indices.has(next)) {
+                connect(next);
+                lowLinks.set(state, Math.min(lowLinks.get(state) as number, lowLinks.get(next) as number));
+            } else if (onStack.has(next)) {
+                lowLinks.set(state, Math.min(lowLinks.get(state) as number, indices.get(next) as number));
+            }
+        }
+
+        if (lowLinks.get(state) === indices.get(state)) {
+            const component: StateEnum[] = [];
+            let member: StateEnum;
+            do {
+                member = stack.pop() as StateEnum;
+                onStack.delete(member);
+                component.push(member);
+            } while (member !== state);
+            components.push(component.reverse());
+        }
+    };
+
+    for (const state of graph.states) {
+        if (!indices.has(state)) connect(state);
+    }
+
+    return components;
+}
+
+/**
+ * Whether a strongly connected component contains a cycle: more than one state, or a state going to itself
+ */
+function isCyclic<StateEnum, EventEnum>(graph: Graph<StateEnum, EventEnum>, component: StateEnum[]): boolean {
+    return component.length > 1 || graph.successors(component[0]).includes(component[0]);
+}
+
+/**
+ * Johnson's algorithm: enumerates elementary cycles from each state, only visiting states of its component
+ * that come after it in `graph.states` order so every cycle is found once.
+ * States that cannot lead back to the start stay blocked, so the work between two cycles is linear
+ * and acyclic components are never searched
+ */
+function elementaryCycles<StateEnum, EventEnum>(
+    graph: Graph<StateEnum, EventEnum>,
+    components: StateEnum[][],
+    maxCycles: number,
+): StateEnum[][] {
+    const cycles: StateEnum[][] = [];
+    if (maxCycles <= 0) return cycles;
+
+    const order = new Map(graph.states.map((state, i) => [state, i]));
+    const componentOf = new Map<StateEnum, number>();
+    components.forEach((component, i) => component.forEach(state => componentOf.set(state, i)));
+
+    for (const start of graph.states) {
+        const component = components[componentOf.get(start) as number];
+        if (!component || !isCyclic(graph, component)) continue;
+
+        const startIndex = order.get(start) as number;
+        const allowed = (state: StateEnum) =>
+            componentOf.get(state) === componentOf.get(start) && (order.get(state) as number) >= startIndex;
+        const path: StateEnum[] = [];
+        const blocked = new Set<StateEnum>();
+        const blockedBy = new Map<StateEnum, Set<StateEnum>>();
+
+        const unblock = (state: StateEnum): void => {
+            blocked.delete(state);
+            for (const waiting of blockedBy.get(state) ?? []) {
+                if (blocked.has(waiting)) unblock(waiting);
+            }
+            blockedBy.delete(state);
+        };
+
+        const search = (state: StateEnum): boolean => {
+            let found = false;
+            path.push(state);
+            blocked.add(state);
+
+            const targets = graph.successors(state).filter(allowed);
+            for (const next of targets) {
+                if (cycles.length >= maxCycles) break;
+
+                if (next === start) {
+                    cycles.push([...path]);
+                    found = true;
+                } else if (!blocked.has(next) && search(next)) {
+                    found = true;
+                }
+            }
+
+            if (found) {
+                unblock(state);
+            } else {
+                for (const next of targets) {
+                    if (!blockedBy.has(next)) blockedBy.set(next, new Set());
+                    blockedBy.get(next)?.add(state);
+                }
+            }
+            path.pop();
+            return found;
+        };
+
+        search(start);
+        if (cycles.length >= maxCycles) break;
+    }
+
+    return cycles;
+}
@@ -0,0 +1,369 @@
+#!/usr/bin/env node
+import { readFileSync } from 'node:fs';
+import { extname, resolve } from 'node:path';
+import { createInterface } from 'node:readline';
+import { pathToFileURL } from 'node:url';
+import { parseArgs } from 'node:util';
+import { findAllPaths, validateMachine } from './analysis';
+import { parseSCXML, toDot, toMermaid, toSCXML } from './formats';
+import { TSM, type MachineConfig, type MachineRegistry, type SerializedStateMachine } from './tsm';
+
+type AnyMachine = TSM<any, any, any>;
+
+/**
+ * Wrong arguments or a file that cannot be loaded, reported with exit code 2
+ */
+class UsageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'UsageError';
+    }
+}
+
+const USAGE = `Usage: synth-state <command> <file> [options]
+
+Commands:
+  validate <file>             Report unreachable states, dead ends and timeouts expiring to invalid targets
+      --terminal A,B          States that are expected to have no outgoing transitions
+      --allow-unreachable A,B States that may be unreachable
+      --forbid-cycles         Report cycles as problems
+  render <file>               Print the machine
+      --format <format>       text (default), mermaid, dot, scxml or json
+  simulate <file>             Interactive session to call go / send and watch timeouts fire
+  paths <file> <from> <to>    List the routes between two states
+      --max <n>               Maximum number of routes (default: 20)
+
+<file> is a JSON machine config or serializeStateMachine() output, an SCXML document,
+or a JS / TS module exporting (as default or \`machine\`) a TSM, a config or a function returning one.
+Guards in JSON and SCXML files are assumed to pass.
+
+Exit codes: 0 success, 1 validation problems or no route, 2 usage or loading error`;
+
+const SIMULATE_HELP = `Commands:
+  go <state>               Transition to a state
+  send <event> [payload]   Send an event, the payload is parsed as JSON when possible
+  valid                    List the valid transitions and events
+  state                    Show the current state, the active states and the context
+  timers                   Show the running timers
+  undo | redo | reset      Step through the history or start over
+  wait <ms>                Wait, timers keep running while waiting
+  help                     Show this help
+  exit                     Leave the simulation`;
+
+/**
+ * Runs the command line and resolves to the exit code
+ * @param argv Arguments without the node binary and script
+ */
+async function main(argv: string[]): Promise<number> {
+    const { values, positionals } = parseArgs({
+        args: argv,
+        allowPositionals: true,
+        options: {
+            format: { type: 'string', short: 'f' },
+            terminal: { type: 'string' },
+            'allow-unreachable': { type: 'string' },
+            'forbid-cycles': { type: 'boolean' },
+            max: { type: 'string' },
+            help: { type: 'boolean', short: 'h' },
+        },
+    });
+
+    const [command, file, ...rest] = positionals;
+    if (values.help || command === undefined || command === 'help') {
+        console.log(USAGE);
+        return 0;
+    }
+    if (file === undefined) throw new UsageError(`Missing <file> for ${command}`);
+
+    switch (command) {
+        case 'validate': {
+            const serialized = (await loadMachine(file)).serializeStateMachine();
+            const states = serialized.states.map(state => state.state);
+            const problems = validateMachine(serialized, {
+                terminal: parseStateList(states, values.terminal),
+                allowUnreachable: parseStateList(states, values['allow-unreachable']),
+                forbidCycles: values['forbid-cycles'],
+            });
+
+            if (problems.length === 0) {
+                const transitions = serialized.states.reduce((count, state) => count + state.toStates.length, 0);
+                console.log(`${file}: valid (${states.length} states, ${transitions} transitions)`);
+                return 0;
+            }
+            console.log(`${file}: ${problems.length} problem${problems.length === 1 ? '' : 's'}`);
+            problems.forEach(problem => console.log(`- ${problem}`));
+            return 1;
+        }
+
+        case 'render': {
+            const machine = await loadMachine(file);
+            console.log(render(machine, values.format ?? 'text'));
+            return 0;
+        }
+
+        case 'paths': {
+            const serialized = (await loadMachine(file)).serializeStateMachine();
+            const states = serialized.states.map(state => state.state);
+            if (rest.length < 2) throw new UsageError('Usage: synth-state paths <file> <from> <to>');
+
+            const from = parseState(states, rest[0]);
+            const to = parseState(states, rest[1]);
+            const maxPaths = values.max !== undefined ? Number(values.max) : 20;
+            if (!(maxPaths > 0)) throw new UsageError(`--max must be a positive number, got ${values.max}`);
+
+            const paths = findAllPaths(serialized, from, to, { maxPaths });
+            if (paths.length === 0) {
+                console.log(`No route from ${from} to ${to}`);
+                return 1;
+            }
+            paths.forEach(path => console.log(path.join(' -> ')));
+            return 0;
+        }
+
+        case 'simulate':
+            await simulate(await loadMachine(file), file);
+            return 0;
+
+        default:
+            throw new UsageError(`Unknown command ${command}\n\n${USAGE}`);
+    }
+}
+
+/**
+ * Loads a machine definition file
+ * @param file JSON config / serialized machine, SCXML document, or JS / TS module
+ */
+async function loadMachine(file: string): Promise<AnyMachine> {
+    const path = resolve(file);
+    const extension = extname(path).toLowerCase();
+
+    const read = () => {
+        try {
+            return readFileSync(path, 'utf8');
+        } catch (error) {
+            throw new UsageError(`Cannot read ${file}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    };
+
+    if (extension === '.json') {
+        try {
+            return fromConfig(JSON.parse(read()));
+        } catch (error) {
+            if (error instanceof UsageError) throw error;
+            throw new UsageError(`Invalid machine file ${file}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+    if (extension === '.scxml' || extension === '.xml') {
+        return fromConfig(parseSCXML(read()));
+    }
+
+    let module: Record<string, unknown>;
+    try {
+        module = await import(pathToFileURL(path).href);
+    } catch (error) {
+        const code = (error as { code?: string }).code;
+        if (code === 'ERR_UNKNOWN_FILE_EXTENSION' && ['.ts', '.mts', '.cts'].includes(extension)) {
+            throw new UsageError(`Node cannot load ${file} directly. Use Node 22.6+ with --experimental-strip-types, `
+                + 'or run the CLI through a TypeScript loader such as `npx tsx node_modules/.bin/synth-state ...`');
+        }
+        if (code === 'ERR_MODULE_NOT_FOUND') throw new UsageError(`Cannot find ${file}`);
+        throw error;
+    }
+
+    const exported = module.default ?? module.machine;
+    const value = typeof exported === 'function' ? await (exported as () => unknown)() : exported;
+    if (isMachine(value)) return value;
+    if (isConfig(value)) return fromConfig(value);
+
+    throw new UsageError(`${file} must export a TSM, a machine config or a function returning one (as default export or \`machine\`)`);
+}
+
+/**
+ * Builds a machine from a config whose functions cannot be loaded: guards pass, reducers keep the context,
+ * callbacks do nothing and onExpire callbacks are logged
+ */
+function fromConfig(config: MachineConfig<any, any>): AnyMachine {
+    if (!isConfig(config)) throw new UsageError('Expected an object with an initial state and a states array');
+
+    const registry: Required<MachineRegistry<any>> = { callbacks: {}, guards: {}, onExpire: {}, assigns: {} };
+    for (const state of config.states) {
+        for (const { guard } of state.guards ?? []) registry.guards[guard] = () => true;
+        for (const to of state.guardedToStates ?? []) registry.guards[`${state.state}->${to}`] = () => true;
+        for (const { assign } of state.assigns ?? []) registry.assigns[assign] = context => context;
+        for (const to of state.assignedToStates ?? []) registry.assigns[`${state.state}->${to}`] = context => context;
+        for (const name of [...(state.callbacks ?? []), ...(state.exitCallbacks ?? [])]) registry.callbacks[name] = () => undefined;
+
+        const timers = [
+            ...(state.timeout ? [{ ...state.timeout, name: String(state.state) }] : []),
+            ...(state.timers ?? []).map(timer => ({ ...timer, name: `${state.state}.${timer.id}` })),
+        ];
+        for (const timer of timers) {
+            const name = timer.onExpire ?? (timer.hasCallback ? timer.name : undefined);
+            if (name !== undefined) registry.onExpire[name] = expired => console.log(`[onExpire] ${name} fired in ${expired}`);
+        }
+    }
+
+    return TSM.fromJSON(config, registry);
+}
+
+function isMachine(value: unknown): value is AnyMachine {
+    return typeof value === 'object' && value !== null
+        && typeof (value as AnyMachine).serializeStateMachine === 'function'
+        && typeof (value as AnyMachine).go === 'function';
+}
+
+function isConfig(value: unknown): value is MachineConfig<any, any> {
+    return typeof value === 'object' && value !== null && 'initial' in value && Array.isArray((value as MachineConfig<any>).states);
+}
+
+/**
+ * @param machine Loaded machine
+ * @param format text, mermaid, dot, scxml or json
+ */
+function render(machine: AnyMachine, format: string): string {
+    const serialized: SerializedStateMachine<any, any> = machine.serializeStateMachine();
+    switch (format) {
+        case 'text': return machine.generateStateDisplay();
+        case 'mermaid': return toMermaid(serialized);
+        case 'dot': return toDot(serialized);
+        case 'scxml': return toSCXML(serialized);
+        case 'json': return JSON.stringify(serialized, null, 2);
+        default: throw new UsageError(`Unknown format ${format}, expected text, mermaid, dot, scxml or json`);
+    }
+}
+
+/**
+ * Matches a command line argument against the states, which may be numbers for numeric enums
+ */
+function parseState<StateEnum>(states: StateEnum[], arg: string): StateEnum {
+    const state = states.find(candidate => String(candidate) === arg);
+    if (state === undefined) {
+        throw new UsageError(`Unknown state ${arg}, expected one of ${states.join(', ')}`);
+    }
+    return state;
+}
+
+function parseStateList<StateEnum>(states: StateEnum[], arg: string | undefined): StateEnum[] {
+    if (arg === undefined) return [];
+    return arg.split(',').map(name => name.trim()).filter(name => name !== '').map(name => parseState(states, name));
+}
+
+/**
+ * Reads commands line by line until `exit` or the end of the input. Timers run on real time
+ */
+async function simulate(machine: AnyMachine, file: string): Promise<void> {
+    const serialized = machine.serializeStateMachine();
+    const states = serialized.states.map(state => state.state);
+    const events = Array.from(new Set(serialized.states.flatMap(state => state.events.map(({ event }) => event))));
+
+    machine.onError(error => console.log(`! ${error.message}`));
+    machine.use({
+        name: 'cli',
+        onResult(result) {
+            if (!result.accepted) return;
+            const event = result.event !== undefined ? ` ${result.event}` : '';
+            console.log(`${result.from} -> ${result.current} (${result.cause}${event})`);
+        },
+    });
+
+    const rl = createInterface({ input: process.stdin, output: process.stdout, prompt: '> ' });
+    console.log(`Simulating ${file}, current state: ${machine.current}. Type "help" for commands.`);
+    rl.prompt();
+
+    try {
+        for await (const line of rl) {
+            const [command, ...args] = line.trim().split(/\s+/);
+            try {
+                if (command === 'exit' || command === 'quit') break;
+                await runSimulationCommand(machine, command, args, states, events);
+            } catch (error) {
+                console.log(`! ${error instanceof Error ? error.message : String(error)}`);
+            }
+            rl.prompt();
+        }
+    } finally {
+        rl.close();
+        // Clears the pending timers so the process can exit
+        machine.pauseTimers();
+    }
+}
+
+async function runSimulationCommand(
+    machine: AnyMachine,
+    command: string,
+    args: string[],
+    states: unknown[],
+    events: unknown[],
+): Promise<void> {
+    switch (command) {
+        case '':
+            return;
+        case 'help':
+            console.log(SIMULATE_HELP);
+            return;
+        case 'go':
+            if (args[0] === undefined) throw new UsageError('Usage: go <state>');
+            machine.go(parseState(states, args[0]));
+            return;
+        case 'send': {
+            if (args[0] === undefined) throw new UsageError('Usage: send <event> [payload]');
+            const event = events.find(candidate => String(candidate) === args[0]);
+            if (event === undefined) throw new UsageError(`Unknown event ${args[0]}, expected one of ${events.join(', ') || '(none)'}`);
+            machine.send(event, args.length > 1 ? parsePayload(args.slice(1).join(' ')) : undefined);
+            return;
+        }
+        case 'valid':
+            console.log(`transitions: ${machine.getValidTransitions().join(', ') || '(none)'}`);
+            console.log(`events: ${machine.getValidEvents().join(', ') || '(none)'}`);
+            return;
+        case 'state':
+            console.log(`current: ${machine.current} (previous: ${machine.previous})`);
+            console.log(`active: ${machine.configuration.join(', ')}`);
+            if (machine.context !== undefined) console.log(`context: ${JSON.stringify(machine.context)}`);
+            return;
+        case 'timers': {
+            const timers = machine.getActiveTimers();
+            if (timers.length === 0) console.log('(no timers running)');
+            for (const timer of timers) {
+                const target = timer.expireTo !== undefined ? ` -> ${timer.expireTo}` : '';
+                console.log(`${timer.state}.${timer.id}: ${Math.round(timer.remainingMs)}ms${target}${timer.repeat ? ' (repeat)' : ''}`);
+            }
+            return;
+        }
+        case 'undo':
+            machine.undo();
+            return;
+        case 'redo':
+            machine.redo();
+            return;
+        case 'reset':
+            machine.reset();
+            return;
+        case 'wait': {
+            const ms = Number(args[0]);
+            if (!(ms >= 0)) throw new UsageError('Usage: wait <ms>');
+            await new Promise(done => setTimeout(done, ms));
+            return;
+        }
+        default:
+            throw new UsageError(`Unknown command ${command}, type "help" for commands`);
+    }
+}
+
+function parsePayload(text: string): unknown {
+    try {
+        return JSON.parse(text);
+    } catch {
+        return text;
+    }
+}
+
+main(process.argv.slice(2)).then(
+    code => {
+        process.exitCode = code;
+    },
+    error => {
+        console.error(error instanceof Error ? error.message : String(error));
+        process.exitCode = 2;
+    },
+);
@@ -0,0 +1,123 @@
+/**
+ * Source of time and timers used by `TSM` for state timeouts.
+ * Swap it out to drive timeouts from a virtual clock, a game loop or `requestAnimationFrame`
+ */
+export interface Scheduler {
+    /** Current time in milliseconds */
+    now(): number;
+    /** Schedules `callback` after `ms` milliseconds, returning a handle for `clearTimeout` */
+    setTimeout(callback: () => void, ms: number): unknown;
+    /** Cancels a callback scheduled with `setTimeout` */
+    clearTimeout(handle: unknown): void;
+}
+
+/**
+ * Default scheduler backed by `Date.now` and the global `setTimeout` / `clearTimeout`
+ */
+export const realTimeScheduler: Scheduler = {
+    now: () => Date.now(),
+    setTimeout: (callback, ms) => setTimeout(callback, ms),
+    clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+interface VirtualTimer {
+    id: number;
+    due: number;
+    callback: () => void;
+}
+
+/**
+ * Manually driven scheduler, time only moves when `advance()` is called.
+ *
+ * Makes timeout chains deterministic in tests, and can be advanced from a game loop tick
+ * or `requestAnimationFrame` to tie state timeouts to simulation time
+ *
+ * @example
+ * const clock = new VirtualClock();
+ * const machine = new TSM<State>(State.Loading, { scheduler: clock });
+ * machine.setStateTimeout(State.Loading, { timeoutMs: 5000, expireTo: State.Timeout });
+ * machine.setStateTimeout(State.Timeout, { timeoutMs: 1000, expireTo: State.Idle });
+ *
+ * clock.advance(5000); // Loading -> Timeout
+ * clock.advance(1000); // Timeout -> Idle
+ */
+export class VirtualClock implements Scheduler {
+    private _now: number;
+    private _nextId = 1;
+    private _timers: VirtualTimer[] = [];
+
+    /**
+     * @param start Initial time in milliseconds (default: 0)
+     */
+    constructor(start = 0) {
+        this._now = start;
+    }
+
+    now(): number {
+        return this._now;
+    }
+
+    setTimeout(callback: () => void, ms: number): unknown {
+        const id = this._nextId++;
+        this._timers.push({ id, due: this._now + Math.max(0, ms), callback });
+        return id;
+    }
+
+    clearTimeout(handle: unknown): void {
+        this._timers = this._timers.filter(timer => timer.id !== handle);
+    }
+
+    /**
+     * Number of timers waiting to fire
+     */
+    get pending(): number {
+        return this._timers.length;
+    }
+
+    /**
+     * Moves time forward, firing every timer that comes due in order of its due time.
+     * Timers scheduled by those callbacks also fire if they come due within the same window
+     * @param ms Milliseconds to advance
+     */
+    advance(ms: number): void {
+        const target = this._now + Math.max(0, ms);
+
+        let timer = this._takeNext(target);
+        while (timer) {
+            this._now = timer.due;
+            timer.callback();
+            timer = this._takeNext(target);
+        }
+
+        this._now = target;
+    }
+
+    /**
+     * Advances exactly to the next pending timer and fires it (and any other timer due at the same time)
+     * @returns false if no timer was pending
+     */
+    next(): boolean {
+        if (this._timers.length === 0) return false;
+
+        const due = Math.min(...this._timers.map(timer => timer.due));
+        this.advance(due - this._now);
+        return true;
+    }
+
+    /**
+     * Removes the earliest timer due at or before `target`, ties fire in scheduling order
+     * @private
+     */
+    private _takeNext(target: number): VirtualTimer | undefined {
+        let earliest: VirtualTimer | undefined;
+        for (const timer of this._timers) {
+            if (timer.due > target) continue;
+            if (!earliest || timer.due < earliest.due || (timer.due === earliest.due && timer.id < earliest.id)) {
+                earliest = timer;
+            }
+        }
+
+        if (earliest) this._timers = this._timers.filter(timer => timer !== earliest);
+        return earliest;
+    }
+}
@@ -0,0 +1,163 @@
+import { TSM, type TSMOptions } from './tsm';
+
+/**
+ * Options for MachineDefinition.createInstance()
+ */
+export interface InstanceOptions<StateEnum, Context = any> extends TSMOptions<Context> {
+    /** State the instance starts in (default: the initial state of the definition) */
+    initial?: StateEnum;
+    /** Registry id, must be unique within the definition (default: an increasing number) */
+    id?: string;
+}
+
+/**
+ * Immutable machine graph built once and shared by many lightweight instances.
+ *
+ * The template's transitions, guards, hierarchy and timeout configuration are shared by reference,
+ * each instance keeps its own current state, context, timers, history and callbacks.
+ * Callbacks registered on the template are not copied to the instances.
+ * Every instance is kept in a registry that can be queried in bulk
+ *
+ * @example
+ * const template = new TSM<NpcState>(NpcState.Idle);
+ * template.addTransitions(NpcState.Idle, NpcState.Wander, NpcState.Chase, { loop: true });
+ * template.setStateTimeout(NpcState.Chase, { timeoutMs: 5000, expireTo: NpcState.Idle });
+ *
+ * const npcs = new MachineDefinition(template);
+ * for (const entity of entities) npcs.createInstance({ id: entity.id });
+ *
+ * npcs.inState(NpcState.Chase).length; // how many NPCs are chasing
+ */
+export class MachineDefinition<StateEnum, EventEnum = string, Context = undefined> {
+    private _template: TSM<StateEnum, EventEnum, Context>;
+    private _instances: Map<string, TSM<StateEnum, EventEnum, Context>> = new Map();
+    private _ids: Map<TSM<StateEnum, EventEnum, Context>, string> = new Map();
+    private _nextId = 1;
+
+    /**
+     * @param template Fully configured machine, its graph can no longer be changed afterwards
+     */
+    constructor(template: TSM<StateEnum, EventEnum, Context>) {
+        this._template = template.seal();
+    }
+
+    /**
+     * Initial state of the instances
+     */
+    get initial(): StateEnum {
+        return this._template.initial;
+    }
+
+    /**
+     * Number of registered instances
+     */
+    get size(): number {
+        return this._instances.size;
+    }
+
+    /**
+     * Creates an instance sharing the graph of this definition and registers it
+     * @param options Optional configuration (initial, id, and the TSM constructor options which default to the template's)
+     * @returns The new machine, in its initial state with its timers started
+     * @throws {Error} If the id is already registered
+     *
+     * @example
+     * const connection = connections.createInstance({ id: socket.id, context: { retries: 0 } });
+     * connection.on(ConnState.Closed, () => connections.release(connection));
+     */
+    createInstance(options?: InstanceOptions<StateEnum, Context>): TSM<StateEnum, EventEnum, Context> {
+        const id = options?.id ?? this._generateId();
+        if (this._instances.has(id)) {
+            throw new Error(`Instance ${id} is already registered`);
+        }
+
+        const instance = TSM.fromTemplate(this._template, options?.initial, options);
+        this._instances.set(id, instance);
+        this._ids.set(instance, id);
+        return instance;
+    }
+
+    /**
+     * Removes an instance from the registry and pauses its timers so it no longer fires
+     * @param instance The instance or its id
+     * @returns false if it was not registered
+     */
+    release(instance: TSM<StateEnum, EventEnum, Context> | string): boolean {
+        const id = typeof instance === 'string' ? instance : this.idOf(instance);
+        const machine = id !== undefined ? this._instances.get(id) : undefined;
+        if (id === undefined || !machine) return false;
+
+        machine.pauseTimers();
+        this._ids.delete(machine);
+        return this._instances.delete(id);
+    }
+
+    /**
+     * @param id Registry id
+     * @returns The instance, or undefined if there is none with this id
+     */
+    get(id: string): TSM<StateEnum, EventEnum, Context> | undefined {
+        return this._instances.get(id);
+    }
+
+    /**
+     * @param instance A registered instance
+     * @returns Its registry id, or undefined if it is not registered
+     */
+    idOf(instance: TSM<StateEnum, EventEnum, Context>): string | undefined {
+        return this._ids.get(instance);
+    }
+
+    /**
+     * @returns Every registered instance, in creation order
+     */
+    instances(): Array<TSM<StateEnum, EventEnum, Context>> {
+        return Array.from(this._instances.values());
+    }
+
+    /**
+     * Instances for which `state` is active, including as a parent or parallel region
+     * @param state State to look for
+     * @returns The matching instances
+     */
+    inState(state: StateEnum): Array<TSM<StateEnum, EventEnum, Context>> {
+        return this.filter(machine => machine.matches(state));
+    }
+
+    /**
+     * Instances satisfying a predicate
+     * @param predicate Called with each instance and its id
+     * @returns The matching instances
+     *
+     * @example
+     * const stuck = sessions.filter(session => session.context.retries > 3);
+     */
+    filter(predicate: (instance: TSM<StateEnum, EventEnum, Context>, id: string) => boolean): Array<TSM<StateEnum, EventEnum, Context>> {
+        const result: Array<TSM<StateEnum, EventEnum, Context>> = [];
+        for (const [id, machine] of this._instances) {
+            if (predicate(machine, id)) result.push(machine);
+        }
+        return result;
+    }
+
+    /**
+     * Number of instances per current (innermost) state, states without instances are left out
+     * @returns Counts keyed by state
+     */
+    countByState(): Map<StateEnum, number> {
+        const counts = new Map<StateEnum, number>();
+        for (const machine of this._instances.values()) {
+            counts.set(machine.current, (counts.get(machine.current) ?? 0) + 1);
+        }
+        return counts;
+    }
+
+    /**
+     * Next free numeric id
+     * @private
+     */
+    private _generateId(): string {
+        while (this._instances.has(String(this._nextId))) this._nextId++;
+        return String(this._nextId++);
+    }
+}
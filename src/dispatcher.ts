@@ -15,4 +15,461 @@ export interface WorkerEventDispatcher<TEvent extends EventContractValidation<TE
     // Dispatches a Promise that can resolve to the return type of the input function
     // Or resolves to a success state and no return I suppose
     dispatchPromise<E extends keyof TEvent>(event: E, ...args: Parameters<TEvent[E]>): Promise<ReturnType<TEvent[E]>>;
-}
\ No newline at end of file
+}
+
+/**
+ * Options for the EventDispatcher constructor
+ */
+export interface EventDispatcherOptions {
+    /**
+     * Called with every error thrown by a listener during `dispatch()` (optional).
+     * When omitted, the first error is rethrown once every listener has run.
+     */
+    onListenerError?: (error: unknown, event: PropertyKey) => void;
+}
+
+interface ListenerEntry {
+    callback: GenericCallback;
+    once: boolean;
+}
+
+/**
+ * In-process implementation of `WorkerEventDispatcher`
+ *
+ * - Listeners run in the order they were registered, a listener added while dispatching only sees the next dispatch
+ * - A throwing listener does not stop the remaining listeners from running
+ * - `dispatchPromise` waits for every listener and resolves to the value of the first one registered,
+ *   rejecting if any listener throws / rejects or if there are no listeners at all
+ *
+ * @example
+ * interface PhysicsEvents {
+ *   step: (dt: number) => void;
+ *   raycast: (from: Vec3, to: Vec3) => Hit | undefined;
+ * }
+ *
+ * const dispatcher = new EventDispatcher<PhysicsEvents>();
+ * dispatcher.on('step', (dt) => world.step(dt));
+ * dispatcher.dispatch('step', 1 / 60);
+ */
+export class EventDispatcher<TEvent extends EventContractValidation<TEvent>> implements WorkerEventDispatcher<TEvent> {
+    private _listeners: Map<keyof TEvent, ListenerEntry[]> = new Map();
+    private _onListenerError?: (error: unknown, event: PropertyKey) => void;
+
+    constructor(options?: EventDispatcherOptions) {
+        this._onListenerError = options?.onListenerError;
+    }
+
+    /**
+     * Registers a listener for an event, registering the same callback twice has no effect
+     * @param event Event to listen to
+     * @param callback Listener that is called every time the event is dispatched
+     */
+    on<E extends keyof TEvent>(event: E, callback: GenericCallback & TEvent[E]): void {
+        this._addListener(event, callback, false);
+    }
+
+    /**
+     * Registers a listener that is removed after the first time it is called
+     * @param event Event to listen to
+     * @param callback Listener that is called on the next dispatch only
+     */
+    once<E extends keyof TEvent>(event: E, callback: GenericCallback & TEvent[E]): void {
+        this._addListener(event, callback, true);
+    }
+
+    /**
+     * Removes a listener that was registered with `on` or `once`
+     * @param event Event the listener was registered to
+     * @param callback Listener to remove
+     * @returns true if the listener was found and removed
+     */
+    off<E extends keyof TEvent>(event: E, callback: GenericCallback & TEvent[E]): boolean {
+        const entries = this._listeners.get(event);
+        if (!entries) return false;
+
+        const index = entries.findIndex(entry => entry.callback === callback);
+        if (index === -1) return false;
+
+        entries.splice(index, 1);
+        if (entries.length === 0) this._listeners.delete(event);
+
+        return true;
+    }
+
+    /**
+     * Removes every listener for an event, or every listener on the dispatcher if no event is given
+     * @param event Event to clear (optional)
+     */
+    clear<E extends keyof TEvent>(event?: E): void {
+        if (event === undefined) {
+            this._listeners.clear();
+        } else {
+            this._listeners.delete(event);
+        }
+    }
+
+    /**
+     * Number of listeners registered for an event
+     * @param event Event to count listeners for
+     */
+    listenerCount<E extends keyof TEvent>(event: E): number {
+        return this._listeners.get(event)?.length ?? 0;
+    }
+
+    /**
+     * Calls every listener of the event synchronously with the given arguments
+     * @param event Event to dispatch
+     * @param args Arguments passed to each listener
+     * @throws The first listener error, after all listeners ran, unless `onListenerError` was provided
+     */
+    dispatch<E extends keyof TEvent>(event: E, ...args: Parameters<TEvent[E]>): void {
+        let firstError: { error: unknown } | undefined;
+
+        for (const callback of this._takeListeners(event)) {
+            try {
+                callback(...args);
+            } catch (error) {
+                if (this._onListenerError) {
+                    this._onListenerError(error, event);
+                } else if (!firstError) {
+                    firstError = { error };
+                }
+            }
+        }
+
+        if (firstError) throw firstError.error;
+    }
+
+    /**
+     * Calls every listener of the event and waits for all of them to settle
+     * @param event Event to dispatch
+     * @param args Arguments passed to each listener
+     * @returns Promise resolving to the (awaited) return value of the first registered listener
+     * @throws Rejects if there are no listeners, or with the first error thrown / rejected by a listener
+     */
+    dispatchPromise<E extends keyof TEvent>(event: E, ...args: Parameters<TEvent[E]>): Promise<ReturnType<TEvent[E]>> {
+        const callbacks = this._takeListeners(event);
+        if (callbacks.length === 0) {
+            return Promise.reject(new Error(`No listeners registered for event ${String(event)}`));
+        }
+
+        const results = callbacks.map(callback => {
+            try {
+                return Promise.resolve(callback(...args));
+            } catch (error) {
+                return Promise.reject(error);
+            }
+        });
+
+        return Promise.all(results).then(values => values[0] as ReturnType<TEvent[E]>);
+    }
+
+    /**
+     * Helper to ensure the listener list exists and the callback is only added once
+     * @private
+     */
+    private _addListener(event: keyof TEvent, callback: GenericCallback, once: boolean): void {
+        if (!this._listeners.has(event)) {
+            this._listeners.set(event, []);
+        }
+
+        const entries = this._listeners.get(event);
+        if (entries && !entries.some(entry => entry.callback === callback)) {
+            entries.push({ callback, once });
+        }
+    }
+
+    /**
+     * Snapshots the listeners for a dispatch and removes the `once` listeners
+     * @private
+     */
+    private _takeListeners(event: keyof TEvent): GenericCallback[] {
+        const entries = this._listeners.get(event);
+        if (!entries) return [];
+
+        const callbacks = entries.map(entry => entry.callback);
+        const remaining = entries.filter(entry => !entry.once);
+
+        if (remaining.length === 0) {
+            this._listeners.delete(event);
+        } else if (remaining.length !== entries.length) {
+            this._listeners.set(event, remaining);
+        }
+
+        return callbacks;
+    }
+}
+
+/**
+ * Minimal shape of anything that can carry messages across a thread boundary.
+ *
+ * Covers browser `Worker` / `MessagePort` / `self` inside a worker (`addEventListener` or `onmessage`)
+ * and Node `worker_threads` `Worker` / `MessagePort` / `parentPort` (`on('message')`)
+ */
+export interface MessagePortLike {
+    postMessage(message: any): void;
+    addEventListener?(type: 'message', listener: (event: any) => void): void;
+    removeEventListener?(type: 'message', listener: (event: any) => void): void;
+    on?(event: 'message', listener: (value: any) => void): unknown;
+    off?(event: 'message', listener: (value: any) => void): unknown;
+    onmessage?: ((event: any) => void) | null;
+    start?(): void;
+}
+
+/**
+ * Options for the PortEventDispatcher constructor
+ */
+export interface PortEventDispatcherOptions extends EventDispatcherOptions {
+    /** Milliseconds to wait for a `dispatchPromise` reply before rejecting (default: no timeout) */
+    timeoutMs?: number;
+}
+
+/**
+ * Wire format of the messages sent between two PortEventDispatchers
+ */
+export type PortMessage =
+    | { __synthState: 'dispatch'; event: PropertyKey; args: unknown[] }
+    | { __synthState: 'request'; id: number; event: PropertyKey; args: unknown[] }
+    | { __synthState: 'response'; id: number; ok: true; value: unknown }
+    | { __synthState: 'response'; id: number; ok: false; error: SerializedError };
+
+/**
+ * Error as sent over the port. `fields` holds the own properties of the error whose values are primitives
+ * or arrays of primitives, such as `code` or the details of an InvalidTransitionError
+ */
+interface SerializedError {
+    name: string;
+    message: string;
+    stack?: string;
+    fields?: Record<string, unknown>;
+}
+
+interface PendingRequest {
+    resolve: (value: any) => void;
+    reject: (error: unknown) => void;
+    timer?: ReturnType<typeof setTimeout>;
+}
+
+function isPortMessage(data: unknown): data is PortMessage {
+    return typeof data === 'object' && data !== null && '__synthState' in data;
+}
+
+function serializeError(error: unknown): SerializedError {
+    if (error instanceof Error) {
+        const fields = Object.entries(error).filter(([key, value]) =>
+            key !== 'name' && key !== 'message' && key !== 'stack'
+            && (Array.isArray(value) ? value.every(isPrimitive) : isPrimitive(value)));
+        const serialized: SerializedError = { name: error.name, message: error.message, stack: error.stack };
+        if (fields.length > 0) serialized.fields = Object.fromEntries(fields);
+        return serialized;
+    }
+    return { name: 'Error', message: String(error) };
+}
+
+function isPrimitive(value: unknown): boolean {
+    return value === null || (typeof value !== 'object' && typeof value !== 'function' && typeof value !== 'symbol');
+}
+
+/**
+ * `WorkerEventDispatcher` that crosses a thread boundary over a `postMessage` port.
+ *
+ * Create one on each side of the port with the same `TEvent` contract, listeners registered with `on`
+ * receive the events dispatched by the other side.
+ *
+ * - `dispatch` posts a fire and forget message
+ * - `dispatchPromise` posts a request and resolves to the return value of the remote listener (see `EventDispatcher`),
+ *   rejecting with the remote error, when no remote listener exists, on `timeoutMs` or when `close()` is called.
+ *   The remote error is rebuilt as an `Error` with its name, message, stack and primitive fields
+ * - Arguments and return values must be structured-cloneable, a reply that cannot be cloned rejects with the clone error
+ * - Errors thrown by the listeners of a remote `dispatch` go to `onListenerError`, they are dropped without it
+ *
+ * @example
+ * // main thread
+ * const physics = new PortEventDispatcher<PhysicsEvents>(new Worker('./physics.js'), { timeoutMs: 1000 });
+ * const hit = await physics.dispatchPromise('raycast', origin, target);
+ *
+ * // physics.js
+ * const physics = new PortEventDispatcher<PhysicsEvents>(parentPort!);
+ * physics.on('raycast', (from, to) => world.raycast(from, to));
+ */
+export class PortEventDispatcher<TEvent extends EventContractValidation<TEvent>> implements WorkerEventDispatcher<TEvent> {
+    private _port: MessagePortLike;
+    private _local: EventDispatcher<TEvent>;
+    private _timeoutMs?: number;
+    private _nextId = 0;
+    private _pending: Map<number, PendingRequest> = new Map();
+    private _detach: () => void;
+
+    constructor(port: MessagePortLike, options?: PortEventDispatcherOptions) {
+        this._port = port;
+        this._local = new EventDispatcher<TEvent>(options);
+        this._timeoutMs = options?.timeoutMs;
+        this._detach = this._attach();
+    }
+
+    /**
+     * Registers a listener for events dispatched by the other side of the port
+     */
+    on<E extends keyof TEvent>(event: E, callback: GenericCallback & TEvent[E]): void {
+        this._local.on(event, callback);
+    }
+
+    /**
+     * Registers a listener that is removed after the first remote dispatch
+     */
+    once<E extends keyof TEvent>(event: E, callback: GenericCallback & TEvent[E]): void {
+        this._local.once(event, callback);
+    }
+
+    /**
+     * Removes a listener that was registered with `on` or `once`
+     * @returns true if the listener was found and removed
+     */
+    off<E extends keyof TEvent>(event: E, callback: GenericCallback & TEvent[E]): boolean {
+        return this._local.off(event, callback);
+    }
+
+    /**
+     * Sends the event to the other side of the port without waiting for it to be handled
+     */
+    dispatch<E extends keyof TEvent>(event: E, ...args: Parameters<TEvent[E]>): void {
+        this._post({ __synthState: 'dispatch', event: event as PropertyKey, args });
+    }
+
+    /**
+     * Sends the event to the other side of the port and waits for the remote listeners
+     * @returns Promise resolving to the return value of the first remote listener
+     */
+    dispatchPromise<E extends keyof TEvent>(event: E, ...args: Parameters<TEvent[E]>): Promise<ReturnType<TEvent[E]>> {
+        const id = this._nextId++;
+
+        return new Promise<ReturnType<TEvent[E]>>((resolve, reject) => {
+            const pending: PendingRequest = { resolve, reject };
+
+            if (this._timeoutMs !== undefined) {
+                pending.timer = setTimeout(() => {
+                    this._pending.delete(id);
+                    reject(new Error(`Timed out after ${this._timeoutMs}ms waiting for a reply to event ${String(event)}`));
+                }, this._timeoutMs);
+            }
+
+            this._pending.set(id, pending);
+
+            try {
+                this._post({ __synthState: 'request', id, event: event as PropertyKey, args });
+            } catch (error) {
+                this._settle(id);
+                reject(error);
+            }
+        });
+    }
+
+    /**
+     * Stops listening to the port and rejects every pending `dispatchPromise`.
+     * Does not close the underlying port, that stays owned by the caller
+     */
+    close(): void {
+        this._detach();
+        this._detach = () => {};
+
+        for (const id of Array.from(this._pending.keys())) {
+            this._settle(id)?.reject(new Error('PortEventDispatcher was closed before a reply was received'));
+        }
+    }
+
+    /**
+     * Subscribes to the port with whichever listener API it supports
+     * @returns Function that removes the subscription
+     * @private
+     */
+    private _attach(): () => void {
+        const port = this._port;
+
+        if (port.addEventListener) {
+            const listener = (event: { data: unknown }) => this._receive(event.data);
+            port.addEventListener('message', listener);
+            port.start?.();
+            return () => port.removeEventListener?.('message', listener);
+        }
+
+        if (port.on) {
+            const listener = (data: unknown) => this._receive(data);
+            port.on('message', listener);
+            return () => port.off?.('message', listener);
+        }
+
+        const listener = (event: { data: unknown }) => this._receive(event.data);
+        port.onmessage = listener;
+        return () => {
+            if (port.onmessage === listener) port.onmessage = null;
+        };
+    }
+
+    /**
+     * @private
+     */
+    private _post(message: PortMessage): void {
+        this._port.postMessage(message);
+    }
+
+    /**
+     * Removes a pending request and its timer
+     * @private
+     */
+    private _settle(id: number): PendingRequest | undefined {
+        const pending = this._pending.get(id);
+        if (!pending) return undefined;
+
+        if (pending.timer !== undefined) clearTimeout(pending.timer);
+        this._pending.delete(id);
+
+        return pending;
+    }
+
+    /**
+     * Handles a message coming from the other side of the port, anything not sent by a PortEventDispatcher is ignored
+     * @private
+     */
+    private _receive(data: unknown): void {
+        if (!isPortMessage(data)) return;
+
+        switch (data.__synthState) {
+            case 'dispatch':
+                try {
+                    this._local.dispatch(data.event as keyof TEvent, ...(data.args as Parameters<TEvent[keyof TEvent]>));
+                } catch {
+                    // Only reached without onListenerError (the local dispatcher reports to it otherwise).
+                    // Nobody is waiting for a fire and forget message, throwing here would only crash the port's handler
+                }
+                break;
+
+            case 'request':
+                this._local.dispatchPromise(data.event as keyof TEvent, ...(data.args as Parameters<TEvent[keyof TEvent]>))
+                    .then(
+                        value => this._post({ __synthState: 'response', id: data.id, ok: true, value }),
+                        error => this._post({ __synthState: 'response', id: data.id, ok: false, error: serializeError(error) }),
+                    )
+                    // The reply could not be cloned (DataCloneError), the requester gets that error instead
+                    .catch(error => this._post({ __synthState: 'response', id: data.id, ok: false, error: serializeError(error) }))
+                    // The port cannot be posted to anymore, there is nobody left to tell
+                    .catch(() => undefined);
+                break;
+
+            case 'response': {
+                const pending = this._settle(data.id);
+                if (!pending) return;
+
+                if (data.ok) {
+                    pending.resolve(data.value);
+                } else {
+                    const error = new Error(data.error.message);
+                    error.name = data.error.name;
+                    if (data.error.stack) error.stack = data.error.stack;
+                    if (data.error.fields) Object.assign(error, data.error.fields);
+                    pending.reject(error);
+                }
+                break;
+            }
+        }
+    }
+}
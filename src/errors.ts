@@ -0,0 +1,100 @@
+/**
+ * Why a transition was rejected
+ * - `no-transition`: there is no edge to the target from any active state
+ * - `guard`: an edge exists but its guard returned false
+ * - `expired`: an edge exists but its `expiresAfterMs` window has passed
+ * - `cancelled`: a beforeTransition hook returned false
+ * - `unknown-event`: no active state handles the event
+ * - `no-history`: undo() / redo() had nothing to apply
+ * - `no-path`: goTo() / replay() could not reach the target
+ * - `invalid-timeout`: a timeout expired but its expireTo is not a valid transition
+ */
+export type TransitionFailure =
+    | 'no-transition'
+    | 'guard'
+    | 'expired'
+    | 'cancelled'
+    | 'unknown-event'
+    | 'no-history'
+    | 'no-path'
+    | 'invalid-timeout';
+
+/**
+ * Thrown by go() / send() and friends with `throwOnInvalid`, otherwise reported to the `onError` handlers
+ */
+export class InvalidTransitionError<StateEnum = any, EventEnum = any> extends Error {
+    /** Current state when the transition was attempted */
+    readonly from: StateEnum;
+    /** Requested target, undefined when an event had no target */
+    readonly to: StateEnum | undefined;
+    /** States that were valid targets from `from` */
+    readonly validTargets: StateEnum[];
+    readonly reason: TransitionFailure;
+    /** Event that was sent, for send() failures */
+    readonly event?: EventEnum;
+
+    constructor(
+        message: string,
+        details: { from: StateEnum; to?: StateEnum; validTargets: StateEnum[]; reason: TransitionFailure; event?: EventEnum },
+    ) {
+        super(message);
+        this.name = 'InvalidTransitionError';
+        this.from = details.from;
+        this.to = details.to;
+        this.validTargets = details.validTargets;
+        this.reason = details.reason;
+        if (details.event !== undefined) this.event = details.event;
+    }
+}
+
+/**
+ * Thrown by setStateTimeout() for an invalid configuration
+ */
+export class TimeoutConfigError<StateEnum = any> extends Error {
+    readonly state: StateEnum;
+
+    constructor(message: string, state: StateEnum) {
+        super(message);
+        this.name = 'TimeoutConfigError';
+        this.state = state;
+    }
+}
+
+/**
+ * Where a failing callback was registered
+ */
+export type CallbackPhase = 'before' | 'exit' | 'edge' | 'entry' | 'assign' | 'expire' | 'plugin';
+
+/**
+ * Wraps an exception thrown by a user callback during a transition or a timeout expiration
+ */
+export class CallbackError<StateEnum = any> extends Error {
+    readonly from: StateEnum;
+    readonly to: StateEnum;
+    readonly phase: CallbackPhase;
+    /** The original exception */
+    readonly cause: unknown;
+
+    constructor(details: { from: StateEnum; to: StateEnum; phase: CallbackPhase; cause: unknown }) {
+        const reason = details.cause instanceof Error ? details.cause.message : String(details.cause);
+        super(`${details.phase} callback failed during transition from ${details.from} to ${details.to}: ${reason}`);
+        this.name = 'CallbackError';
+        this.from = details.from;
+        this.to = details.to;
+        this.phase = details.phase;
+        this.cause = details.cause;
+    }
+}
+
+/**
+ * Any error a TSM reports to its `onError` handlers
+ */
+export type TSMError<StateEnum = any, EventEnum = any> =
+    | InvalidTransitionError<StateEnum, EventEnum>
+    | TimeoutConfigError<StateEnum>
+    | CallbackError<StateEnum>;
+
+/**
+ * Handler registered with onError()
+ */
+export type ErrorHandler<StateEnum = any, EventEnum = any> = (error: TSMError<StateEnum, EventEnum>) => void;
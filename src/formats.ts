@@ -0,0 +1,490 @@
+import type { HistoryMode, MachineConfig, MachineStateConfig, SerializedState, SerializedStateMachine } from './tsm';
+
+/**
+ * One edge of the exported graph, with every way of taking it merged into a single label
+ */
+interface ExportEdge {
+    from: string;
+    to: string;
+    events: string[];
+    guarded: boolean;
+    /** Timeout in ms when this edge is the `expireTo` of the source state */
+    afterMs?: number;
+}
+
+/**
+ * Merges plain transitions, named events and timeout expirations into one edge per from/to pair
+ */
+function collectEdges<StateEnum, EventEnum>(machine: SerializedStateMachine<StateEnum, EventEnum>): ExportEdge[] {
+    const edges: ExportEdge[] = [];
+    const edgeFor = (from: string, to: string) => {
+        let edge = edges.find(e => e.from === from && e.to === to);
+        if (!edge) {
+            edge = { from, to, events: [], guarded: false };
+            edges.push(edge);
+        }
+        return edge;
+    };
+
+    for (const state of machine.states) {
+        const from = String(state.state);
+        for (const to of state.toStates) {
+            edgeFor(from, String(to)).guarded = state.guardedToStates.includes(to);
+        }
+        for (const { event, to } of state.events) {
+            edgeFor(from, String(to)).events.push(String(event));
+        }
+        for (const timer of [...(state.timeout ? [state.timeout] : []), ...(state.timers ?? [])]) {
+            if (timer.expireTo !== undefined) edgeFor(from, String(timer.expireTo)).afterMs = timer.timeoutMs;
+        }
+    }
+
+    return edges;
+}
+
+function edgeLabel(edge: ExportEdge): string {
+    const parts = [...edge.events];
+    if (edge.afterMs !== undefined) parts.push(`after ${edge.afterMs}ms`);
+    if (edge.guarded) parts.push('[guard]');
+    return parts.join(', ');
+}
+
+function topLevelStates<StateEnum, EventEnum>(machine: SerializedStateMachine<StateEnum, EventEnum>): Array<SerializedState<StateEnum, EventEnum>> {
+    return machine.states.filter(state => state.parent === undefined);
+}
+
+/**
+ * Mermaid ids for the given names: valid names are kept, the others are sanitized
+ * and get a numeric suffix when they would collide with another id
+ */
+function mermaidIds(names: string[]): Map<string, string> {
+    const sanitize = (name: string) => name.replace(/[^A-Za-z0-9_]/g, '_');
+    const ids = new Map(names.filter(name => sanitize(name) === name).map(name => [name, name]));
+    const used = new Set(ids.values());
+
+    for (const name of names) {
+        if (ids.has(name)) continue;
+
+        let id = sanitize(name);
+        for (let suffix = 2; used.has(id); suffix++) id = `${sanitize(name)}_${suffix}`;
+        ids.set(name, id);
+        used.add(id);
+    }
+    return ids;
+}
+
+function findState<StateEnum, EventEnum>(machine: SerializedStateMachine<StateEnum, EventEnum>, state: StateEnum) {
+    return machine.states.find(s => s.state === state);
+}
+
+/**
+ * Renders a serialized machine as a Mermaid `stateDiagram-v2`.
+ * Compound states become composite states, parallel regions are separated with `--`,
+ * timeout expirations are labelled `after Nms` and the active states are highlighted
+ * @param machine Output of `serializeStateMachine()`
+ * @returns Mermaid source
+ *
+ * @example
+ * const diagram = toMermaid(stateMachine.serializeStateMachine());
+ */
+export function toMermaid<StateEnum, EventEnum>(machine: SerializedStateMachine<StateEnum, EventEnum>): string {
+    const lines: string[] = ['stateDiagram-v2'];
+    const edges = collectEdges(machine);
+    const ids = mermaidIds([...new Set([
+        ...machine.states.map(({ state }) => String(state)),
+        ...edges.flatMap(edge => [edge.from, edge.to]),
+    ])]);
+    const id = (state: unknown) => ids.get(String(state)) as string;
+
+    // Declare states whose name is not a valid Mermaid id
+    for (const { state } of machine.states) {
+        if (id(state) !== String(state)) lines.push(`    state "${String(state).replace(/"/g, "'")}" as ${id(state)}`);
+    }
+
+    const renderState = (state: SerializedState<StateEnum, EventEnum>, indent: string) => {
+        const compound = state.compound;
+        if (!compound) return;
+
+        lines.push(`${indent}state ${id(state.state)} {`);
+        if (compound.parallel) {
+            compound.children.forEach((region, i) => {
+                if (i > 0) lines.push(`${indent}    --`);
+                const regionState = findState(machine, region);
+                if (regionState?.compound) {
+                    renderState(regionState, indent + '    ');
+                } else {
+                    lines.push(`${indent}    ${id(region)}`);
+                }
+            });
+        } else {
+            lines.push(`${indent}    [*] --> ${id(compound.initial)}`);
+            for (const child of compound.children) {
+                const childState = findState(machine, child);
+                if (childState?.compound) renderState(childState, indent + '    ');
+            }
+        }
+        lines.push(`${indent}}`);
+    };
+
+    lines.push(`    [*] --> ${id(machine.initial)}`);
+    topLevelStates(machine).forEach(state => renderState(state, '    '));
+
+    for (const edge of edges) {
+        const label = edgeLabel(edge);
+        lines.push(`    ${id(edge.from)} --> ${id(edge.to)}${label ? `: ${label}` : ''}`);
+    }
+
+    const active = machine.configuration ?? [machine.current];
+    lines.push('    classDef current fill:#ffcc80,stroke:#e65100,stroke-width:2px');
+    lines.push(`    class ${active.map(id).join(',')} current`);
+
+    return lines.join('\n');
+}
+
+/**
+ * Renders a serialized machine as a Graphviz DOT digraph.
+ * Compound states become clusters, timeout expirations are dashed `after Nms` edges
+ * and the active states are filled
+ * @param machine Output of `serializeStateMachine()`
+ * @param name Graph name (default: `TSM`)
+ * @returns DOT source
+ *
+ * @example
+ * fs.writeFileSync('machine.dot', toDot(stateMachine.serializeStateMachine()));
+ * // dot -Tsvg machine.dot -o machine.svg
+ */
+export function toDot<StateEnum, EventEnum>(machine: SerializedStateMachine<StateEnum, EventEnum>, name = 'TSM'): string {
+    const quote = (value: unknown) => `"${String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+    const active = (machine.configuration ?? [machine.current]).map(String);
+
+    const lines: string[] = [`digraph ${quote(name)} {`];
+    lines.push('    rankdir=LR;');
+    lines.push('    node [shape=box, style=rounded];');
+    lines.push('    __initial [shape=point, label=""];');
+    lines.push(`    __initial -> ${quote(machine.initial)};`);
+
+    const renderNode = (state: SerializedState<StateEnum, EventEnum>, indent: string) => {
+        const attributes = active.includes(String(state.state))
+            ? ' [style="rounded,filled,bold", fillcolor="#ffcc80"]'
+            : '';
+
+        if (!state.compound) {
+            lines.push(`${indent}${quote(state.state)}${attributes};`);
+            return;
+        }
+
+        lines.push(`${indent}subgraph ${quote(`cluster_${String(state.state)}`)} {`);
+        lines.push(`${indent}    label=${quote(`${String(state.state)}${state.compound.parallel ? ' (parallel)' : ''}`)};`);
+        lines.push(`${indent}    style=${state.compound.parallel ? 'dashed' : 'rounded'};`);
+        lines.push(`${indent}    ${quote(state.state)}${attributes};`);
+        for (const child of state.compound.children) {
+            const childState = findState(machine, child);
+            if (childState) renderNode(childState, indent + '    ');
+        }
+        lines.push(`${indent}}`);
+    };
+
+    topLevelStates(machine).forEach(state => renderNode(state, '    '));
+
+    for (const edge of collectEdges(machine)) {
+        const attributes: string[] = [];
+        const label = edgeLabel(edge);
+        if (label) attributes.push(`label=${quote(label)}`);
+        if (edge.afterMs !== undefined) attributes.push('style=dashed');
+        lines.push(`    ${quote(edge.from)} -> ${quote(edge.to)}${attributes.length ? ` [${attributes.join(', ')}]` : ''};`);
+    }
+
+    lines.push('}');
+    return lines.join('\n');
+}
+
+/** Event prefix used to express `go(target)` edges as SCXML transitions */
+const GO_EVENT_PREFIX = 'go.';
+/** Event prefix of the delayed `<send>` used to express state timeouts */
+const TIMEOUT_EVENT_PREFIX = 'timeout.';
+/** Namespace of the attributes that carry what SCXML cannot express: guard names and timeout callbacks */
+const TSM_NAMESPACE = 'urn:synth-state';
+
+function escapeXml(value: unknown): string {
+    return String(value)
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+/**
+ * Renders a serialized machine as a W3C SCXML document.
+ * Plain transitions become `go.<target>` events, named events keep their name and timeouts
+ * become a delayed `<send>` cancelled on exit.
+ * Guards are functions, so they are not a `cond` expression: the guard name `<from>-><to>` (the one
+ * `TSM.fromJSON()` looks up in the registry) goes in a `tsm:guard` attribute, and a timeout with both
+ * `expireTo` and onExpire is marked with `tsm:onexpire`. Other SCXML tools ignore these attributes
+ * @param machine Output of `serializeStateMachine()`
+ * @returns SCXML source
+ */
+export function toSCXML<StateEnum, EventEnum>(machine: SerializedStateMachine<StateEnum, EventEnum>): string {
+    const lines: string[] = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<scxml xmlns="http://www.w3.org/2005/07/scxml" xmlns:tsm="${TSM_NAMESPACE}" version="1.0" initial="${escapeXml(machine.initial)}">`,
+    ];
+
+    const renderState = (state: SerializedState<StateEnum, EventEnum>, indent: string) => {
+        const compound = state.compound;
+        const tag = compound?.parallel ? 'parallel' : 'state';
+        const initial = compound && !compound.parallel ? ` initial="${escapeXml(compound.initial)}"` : '';
+        lines.push(`${indent}<${tag} id="${escapeXml(state.state)}"${initial}>`);
+
+        const inner = indent + '    ';
+        // Named timers get their id appended to the event: timeout.<state>.<id>
+        const timers = [
+            ...(state.timeout ? [{ ...state.timeout, event: `${TIMEOUT_EVENT_PREFIX}${String(state.state)}` }] : []),
+            ...(state.timers ?? []).map(timer => ({ ...timer, event: `${TIMEOUT_EVENT_PREFIX}${String(state.state)}.${timer.id}` })),
+        ];
+
+        for (const timer of timers) {
+            const onExpire = timer.expireTo !== undefined && timer.hasCallback ? ' tsm:onexpire="true"' : '';
+            lines.push(`${inner}<onentry><send id="${escapeXml(timer.event)}" event="${escapeXml(timer.event)}" delay="${timer.timeoutMs}ms"${onExpire}/></onentry>`);
+            lines.push(`${inner}<onexit><cancel sendid="${escapeXml(timer.event)}"/></onexit>`);
+        }
+
+        if (compound && !compound.parallel && compound.history !== 'none') {
+            lines.push(`${inner}<history id="${escapeXml(`${String(state.state)}.history`)}" type="${compound.history}"/>`);
+        }
+
+        for (const to of state.toStates) {
+            const guard = state.guardedToStates.includes(to) ? ` tsm:guard="${escapeXml(`${String(state.state)}->${String(to)}`)}"` : '';
+            lines.push(`${inner}<transition event="${escapeXml(`${GO_EVENT_PREFIX}${String(to)}`)}" target="${escapeXml(to)}"${guard}/>`);
+        }
+        for (const { event, to } of state.events) {
+            lines.push(`${inner}<transition event="${escapeXml(event)}" target="${escapeXml(to)}"/>`);
+        }
+        for (const timer of timers) {
+            if (timer.expireTo !== undefined) {
+                lines.push(`${inner}<transition event="${escapeXml(timer.event)}" target="${escapeXml(timer.expireTo)}"/>`);
+            }
+        }
+
+        for (const child of compound?.children ?? []) {
+            const childState = findState(machine, child);
+            if (childState) renderState(childState, inner);
+        }
+
+        lines.push(`${indent}</${tag}>`);
+    };
+
+    topLevelStates(machine).forEach(state => renderState(state, '    '));
+
+    lines.push('</scxml>');
+    return lines.join('\n');
+}
+
+/**
+ * Element of the parsed XML tree
+ */
+interface XmlElement {
+    name: string;
+    attributes: Record<string, string>;
+    children: XmlElement[];
+}
+
+function decodeXml(value: string): string {
+    return value.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|amp|lt|gt|quot|apos);/g, (_, entity: string) => {
+        switch (entity) {
+            case 'amp': return '&';
+            case 'lt': return '<';
+            case 'gt': return '>';
+            case 'quot': return '"';
+            case 'apos': return "'";
+        }
+        return String.fromCodePoint(entity[1] === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10));
+    });
+}
+
+/**
+ * Minimal XML parser, only keeps elements and attributes (text, comments, CDATA and
+ * processing instructions are skipped) which is all SCXML state charts need.
+ * Namespace prefixes are dropped from element names
+ */
+function parseXml(xml: string): XmlElement {
+    const root: XmlElement = { name: '#document', attributes: {}, children: [] };
+    const stack: XmlElement[] = [root];
+    let pos = 0;
+
+    const skipPast = (terminator: string) => {
+        const end = xml.indexOf(terminator, pos);
+        if (end === -1) throw new Error(`Invalid XML: missing "${terminator}"`);
+        pos = end + terminator.length;
+    };
+
+    while (pos < xml.length) {
+        const open = xml.indexOf('<', pos);
+        if (open === -1) break;
+        pos = open;
+
+        if (xml.startsWith('<!--', pos)) { skipPast('-->'); continue; }
+        if (xml.startsWith('<![CDATA[', pos)) { skipPast(']]>'); continue; }
+        if (xml.startsWith('<?', pos) || xml.startsWith('<!', pos)) { skipPast('>'); continue; }
+
+        if (xml.startsWith('</', pos)) {
+            const end = xml.indexOf('>', pos);
+            if (end === -1) throw new Error('Invalid XML: unterminated closing tag');
+            const name = xml.slice(pos + 2, end).trim().replace(/^.*:/, '');
+            const element = stack.pop();
+            if (!element || element.name !== name || stack.length === 0) {
+                throw new Error(`Invalid XML: unexpected closing tag </${name}>`);
+            }
+            pos = end + 1;
+            continue;
+        }
+
+        const tag = /^<([A-Za-z_][\w.:-]*)((?:\s+[\w.:-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/.exec(xml.slice(pos));
+        if (!tag) throw new Error(`Invalid XML: malformed tag at offset ${pos}`);
+
+        const element: XmlElement = { name: tag[1].replace(/^.*:/, ''), attributes: {}, children: [] };
+        const attributePattern = /([\w.:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+        for (let match = attributePattern.exec(tag[2]); match; match = attributePattern.exec(tag[2])) {
+            element.attributes[match[1]] = decodeXml(match[2] ?? match[3]);
+        }
+
+        stack[stack.length - 1].children.push(element);
+        if (!tag[3]) stack.push(element);
+        pos += tag[0].length;
+    }
+
+    if (stack.length > 1) throw new Error(`Invalid XML: unclosed tag <${stack[stack.length - 1].name}>`);
+    return root;
+}
+
+/**
+ * Converts a W3C SCXML document into a config for `TSM.fromJSON()`.
+ * Supports `<state>`, `<parallel>`, `<final>`, `initial` attributes and `<initial>` elements,
+ * `<history>`, the guards and timeouts written by `toSCXML()`, and `cond` guards (the expression is
+ * used as the registry name).
+ * Eventless transitions and `go.<target>` events become plain transitions, any other event a named event.
+ * Executable content other than timeouts is ignored
+ * @param xml SCXML source, for example exported from an external editor
+ * @returns Machine config with string states and events
+ * @throws {Error} If the document is not valid XML, has no states or uses transitions with several targets
+ *
+ * @example
+ * const machine = TSM.fromJSON(parseSCXML(fs.readFileSync('door.scxml', 'utf8')), { guards: { isAdmin } });
+ */
+export function parseSCXML(xml: string): MachineConfig<string, string> {
+    const scxml = parseXml(xml).children.find(element => element.name === 'scxml');
+    if (!scxml) throw new Error('Invalid SCXML: missing <scxml> root element');
+
+    const isState = (element: XmlElement) => ['state', 'parallel', 'final'].includes(element.name);
+    // Whichever prefix the document binds to the synth-state namespace
+    const prefix = Object.entries(scxml.attributes)
+        .find(([name, value]) => name.startsWith('xmlns:') && value === TSM_NAMESPACE)?.[0].slice('xmlns:'.length);
+    const tsmAttribute = (element: XmlElement, name: string) =>
+        prefix === undefined ? undefined : element.attributes[`${prefix}:${name}`];
+    const states: Array<MachineStateConfig<string, string>> = [];
+    let generatedIds = 0;
+
+    const initialOf = (element: XmlElement, children: string[]) => {
+        const attribute = element.attributes.initial?.trim().split(/\s+/)[0];
+        if (attribute) return attribute;
+
+        const initialTarget = element.children
+            .find(child => child.name === 'initial')?.children
+            .find(child => child.name === 'transition')?.attributes.target?.trim().split(/\s+/)[0];
+        return initialTarget ?? children[0];
+    };
+
+    const visit = (element: XmlElement): string => {
+        const id = element.attributes.id ?? `__state${generatedIds++}`;
+        const config: MachineStateConfig<string, string> = { state: id, toStates: [], events: [], guards: [] };
+        states.push(config);
+
+        // Timeouts are a delayed <send> in <onentry>, cleared by the transition on the same event
+        const delayedSends = element.children
+            .filter(child => child.name === 'onentry')
+            .flatMap(onentry => onentry.children)
+            .filter(child => child.name === 'send' && child.attributes.delay !== undefined && child.attributes.event !== undefined);
+        const timeouts = new Map(delayedSends.map(send => [send.attributes.event, parseDelay(send.attributes.delay)]));
+        const withCallback = new Set(delayedSends.filter(send => tsmAttribute(send, 'onexpire') === 'true').map(send => send.attributes.event));
+
+        // `timeout.<state>` (or the first delayed send) is the timeout, `timeout.<state>.<id>` and the others named timers
+        const addTimer = (event: string, timer: { timeoutMs: number; expireTo?: string; hasCallback?: boolean }) => {
+            const namedPrefix = `${TIMEOUT_EVENT_PREFIX}${id}.`;
+            if (!config.timeout && !event.startsWith(namedPrefix)) {
+                config.timeout = timer;
+            } else {
+                const timerId = event.startsWith(namedPrefix) ? event.slice(namedPrefix.length) : event;
+                (config.timers ??= []).push({ id: timerId, ...timer });
+            }
+        };
+
+        for (const transition of element.children.filter(child => child.name === 'transition')) {
+            const targets = transition.attributes.target?.trim().split(/\s+/) ?? [];
+            if (targets.length === 0) continue; // targetless transitions have no effect on the state
+            if (targets.length > 1) {
+                throw new Error(`Unsupported SCXML: transition in ${id} has several targets (${targets.join(', ')})`);
+            }
+            const [to] = targets;
+
+            const events = transition.attributes.event?.trim().split(/\s+/) ?? [];
+            const timeoutEvent = events.find(event => timeouts.has(event));
+            if (timeoutEvent !== undefined) {
+                const timer = { timeoutMs: timeouts.get(timeoutEvent) as number, expireTo: to };
+                addTimer(timeoutEvent, withCallback.has(timeoutEvent) ? { ...timer, hasCallback: true } : timer);
+                timeouts.delete(timeoutEvent);
+                continue;
+            }
+
+            if (events.length === 0 || events.every(event => event === `${GO_EVENT_PREFIX}${to}`)) {
+                if (!config.toStates?.includes(to)) config.toStates?.push(to);
+            } else {
+                for (const event of events) {
+                    if (event === `${GO_EVENT_PREFIX}${to}`) {
+                        if (!config.toStates?.includes(to)) config.toStates?.push(to);
+                    } else {
+                        config.events?.push({ event, to });
+                    }
+                }
+            }
+
+            const guard = tsmAttribute(transition, 'guard') ?? transition.attributes.cond;
+            if (guard !== undefined) {
+                config.guards?.push({ to, guard });
+            }
+        }
+
+        // A delayed send without a transition is handled by an onExpire callback named after the state (and timer)
+        for (const [event, timeoutMs] of timeouts) {
+            addTimer(event, { timeoutMs, hasCallback: true });
+        }
+
+        const children = element.children.filter(isState).map(visit);
+        if (children.length > 0) {
+            const history = element.children.find(child => child.name === 'history');
+            config.compound = element.name === 'parallel'
+                ? { children, parallel: true }
+                : {
+                    children,
+                    initial: initialOf(element, children),
+                    history: history ? ((history.attributes.type ?? 'shallow') as HistoryMode) : 'none',
+                };
+        }
+
+        return id;
+    };
+
+    const topLevel = scxml.children.filter(isState).map(visit);
+    if (topLevel.length === 0) throw new Error('Invalid SCXML: no states defined');
+
+    return { initial: initialOf(scxml, topLevel), states };
+}
+
+/**
+ * Parses an SCXML delay (`500ms`, `2s`, `1.5s`, `1m`) into milliseconds
+ */
+function parseDelay(delay: string): number {
+    const match = /^\s*(\d+(?:\.\d+)?)\s*(ms|s|m|h)?\s*$/.exec(delay);
+    if (!match) throw new Error(`Unsupported SCXML delay "${delay}"`);
+
+    const units: Record<string, number> = { ms: 1, s: 1000, m: 60_000, h: 3_600_000 };
+    return Math.round(parseFloat(match[1]) * units[match[2] ?? 'ms']);
+}
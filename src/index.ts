@@ -1,6 +1,79 @@
 export * from './dispatcher';
 export * from './tsm';
+export * from './persistence';
+export * from './clock';
+export * from './formats';
+export * from './analysis';
+export * from './store';
+export * from './errors';
+export * from './definition';
+export * from './plugins';
+export * from './testing';
+export * from './remote';
+export * from './typed';
+export * from './migration';
 
 // Re-export types for convenience
-export type { StateTimeoutOptions, TransitionOptions, GoOptions } from './tsm';
-
+export type {
+    TSMOptions,
+    HistoryMode,
+    SubstateOptions,
+    TransitionCause,
+    TransitionRecord,
+    StateTimeoutOptions,
+    ActiveTimerInfo,
+    TransitionOptions,
+    TransitionGuard,
+    ContextAssigner,
+    TSMState,
+    StateListener,
+    TSMObserver,
+    TSMObservable,
+    BeforeTransitionHook,
+    GoOptions,
+    AsyncGoOptions,
+    SerializedState,
+    SerializedStateMachine,
+    MachineConfig,
+    MachineStateConfig,
+    MachineRegistry,
+    TSMSnapshot,
+} from './tsm';
+export type { EventDispatcherOptions, PortEventDispatcherOptions, MessagePortLike } from './dispatcher';
+export type { SnapshotStorage, WebStorageLike, FileSystemLike } from './persistence';
+export type { Scheduler } from './clock';
+export type { InstanceOptions } from './definition';
+export type {
+    TransitionAttempt,
+    TransitionResult,
+    AttemptChange,
+    TSMPlugin,
+    TransitionLogEntry,
+    LoggerPluginOptions,
+    StateMetrics,
+    MetricsPlugin,
+} from './plugins';
+export type {
+    TestStep,
+    TestPath,
+    MachineFactory,
+    StateAssertion,
+    ModelTestOptions,
+    RandomWalkOptions,
+    PathResult,
+    WalkFailure,
+    RandomWalkReport,
+} from './testing';
+export type { RemoteMachineState, RemoteTransition, RemoteMachineEvents, RemoteStateCallback } from './remote';
+export type {
+    TransitionGraph,
+    GraphState,
+    GraphTarget,
+    TypedTimeoutOptions,
+    TypedMachineBase,
+    TypedMachineIn,
+    TypedMachine,
+    TypedGraph,
+} from './typed';
+export type { GraphEdge, GraphDiff, MigrationOptions, MigrationResult } from './migration';
+export type { TransitionFailure, CallbackPhase, TSMError, ErrorHandler } from './errors';
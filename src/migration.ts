@@ -0,0 +1,240 @@
+import type { SerializedState, SerializedStateMachine, TSM, TSMSnapshot } from './tsm';
+
+/**
+ * Edge of the transition graph
+ */
+export interface GraphEdge<StateEnum> {
+    from: StateEnum;
+    to: StateEnum;
+}
+
+/**
+ * Differences between two versions of a machine graph. An event whose target changed is listed as removed and added
+ */
+export interface GraphDiff<StateEnum, EventEnum = string> {
+    addedStates: StateEnum[];
+    removedStates: StateEnum[];
+    addedTransitions: Array<GraphEdge<StateEnum>>;
+    removedTransitions: Array<GraphEdge<StateEnum>>;
+    addedEvents: Array<{ from: StateEnum; event: EventEnum; to: StateEnum }>;
+    removedEvents: Array<{ from: StateEnum; event: EventEnum; to: StateEnum }>;
+    /** States present in both versions whose timers differ (duration, target, callback or repeat) */
+    changedTimeouts: StateEnum[];
+    /** States present in both versions with another parent */
+    changedParents: StateEnum[];
+    /** Set when the initial state differs */
+    initialChanged: boolean;
+}
+
+/**
+ * Options for migrateMachine()
+ */
+export interface MigrationOptions<StateEnum, EventEnum = string, Context = any> {
+    /** States renamed by the new version, old name to new name */
+    rename?: Map<StateEnum, StateEnum>;
+    /**
+     * State to use when the current state does not exist in the new graph, or a function choosing it
+     * (default: the initial state of the target)
+     */
+    fallback?: StateEnum | ((state: StateEnum, diff: GraphDiff<StateEnum, EventEnum>) => StateEnum);
+    /** Converts the context to the shape expected by the new version (default: kept as is) */
+    context?: (context: Context) => Context;
+}
+
+/**
+ * Outcome of migrateMachine()
+ */
+export interface MigrationResult<StateEnum, EventEnum = string> {
+    /** Current state of the instance before the migration */
+    from: StateEnum;
+    /** Current state of the target after the migration */
+    to: StateEnum;
+    /** Set when the current state no longer existed and the fallback was used */
+    fellBack: boolean;
+    diff: GraphDiff<StateEnum, EventEnum>;
+}
+
+/**
+ * Compares the graphs of two serialized machines: states, transitions, events, timers, hierarchy and initial state.
+ * Guards, reducers and callbacks are functions and are not compared
+ * @param before Output of `serializeStateMachine()` for the old version
+ * @param after Output of `serializeStateMachine()` for the new version
+ * @returns The differences, every list is empty when the graphs match
+ *
+ * @example
+ * const diff = diffGraphs(JSON.parse(previousRelease), checkoutFSM.serializeStateMachine());
+ * if (diff.removedStates.length > 0) console.warn('States removed:', diff.removedStates);
+ */
+export function diffGraphs<StateEnum, EventEnum>(
+    before: SerializedStateMachine<StateEnum, EventEnum>,
+    after: SerializedStateMachine<StateEnum, EventEnum>,
+): GraphDiff<StateEnum, EventEnum> {
+    const oldStates = new Map(before.states.map(state => [state.state, state]));
+    const newStates = new Map(after.states.map(state => [state.state, state]));
+    const edges = (machine: SerializedStateMachine<StateEnum, EventEnum>) =>
+        machine.states.flatMap(state => state.toStates.map(to => ({ from: state.state, to })));
+    const events = (machine: SerializedStateMachine<StateEnum, EventEnum>) =>
+        machine.states.flatMap(state => state.events.map(({ event, to }) => ({ from: state.state, event, to })));
+    const missingFrom = <T extends object>(items: T[], others: T[]) =>
+        items.filter(item => !others.some(other => sameFields(item, other)));
+
+    const shared = before.states.map(state => state.state).filter(state => newStates.has(state));
+
+    return {
+        addedStates: after.states.map(state => state.state).filter(state => !oldStates.has(state)),
+        removedStates: before.states.map(state => state.state).filter(state => !newStates.has(state)),
+        addedTransitions: missingFrom(edges(after), edges(before)),
+        removedTransitions: missingFrom(edges(before), edges(after)),
+        addedEvents: missingFrom(events(after), events(before)),
+        removedEvents: missingFrom(events(before), events(after)),
+        changedTimeouts: shared.filter(state => timerKey(oldStates.get(state)) !== timerKey(newStates.get(state))),
+        changedParents: shared.filter(state => oldStates.get(state)?.parent !== newStates.get(state)?.parent),
+        initialChanged: before.initial !== after.initial,
+    };
+}
+
+/**
+ * Moves a live instance onto a machine built with a new version of the graph.
+ * The target takes over the current state (renamed if needed), the previous state, the context
+ * and the timers of the states that still exist, without running any callbacks.
+ * Timers the new version adds to the active states start from now.
+ * When the current state no longer exists the fallback is used. The instance's timers are paused
+ * so it stops driving itself
+ * @param instance Machine running the old graph
+ * @param target Machine with the new graph, usually freshly created with its callbacks registered
+ * @param options Optional configuration (rename, fallback, context)
+ * @returns Where the instance was and where the target is now, with the graph diff
+ * @throws {Error} If the fallback state is not part of the new graph
+ *
+ * @example
+ * const next = createCheckoutMachine(); // new version
+ * const { to, fellBack } = migrateMachine(checkout, next, {
+ *   rename: new Map([[State.Payment, State.PaymentDetails]]),
+ *   fallback: State.Cart,
+ * });
+ */
+export function migrateMachine<StateEnum, EventEnum, Context>(
+    instance: TSM<StateEnum, EventEnum, Context>,
+    target: TSM<StateEnum, EventEnum, Context>,
+    options?: MigrationOptions<StateEnum, EventEnum, Context>,
+): MigrationResult<StateEnum, EventEnum> {
+    const before = instance.serializeStateMachine();
+    const after = target.serializeStateMachine();
+    const diff = diffGraphs(before, after);
+    const states = new Map(after.states.map(state => [state.state, state]));
+    const map = (state: StateEnum) => options?.rename?.get(state) ?? state;
+
+    const snapshot = instance.snapshot();
+
+    const from = snapshot.current;
+    let current = map(from);
+    const fellBack = !states.has(current);
+    if (fellBack) {
+        const fallback = options?.fallback;
+        current = typeof fallback === 'function'
+            ? (fallback as (state: StateEnum, diff: GraphDiff<StateEnum, EventEnum>) => StateEnum)(from, diff)
+            : fallback ?? after.initial;
+        if (!states.has(current)) {
+            throw new Error(`Fallback state ${current} is not part of the new graph`);
+        }
+    }
+
+    // Active states that still exist keep their timers and entry times
+    const configuration = withHierarchy(
+        fellBack ? [current] : (snapshot.configuration ?? [from]).map(map).filter(state => states.has(state)),
+        states,
+    );
+    const previous = map(snapshot.previous);
+
+    const migrated: TSMSnapshot<StateEnum, Context> = {
+        current,
+        previous: states.has(previous) ? previous : current,
+        configuration,
+        timers: snapshot.timers
+            .map(timer => ({ ...timer, state: map(timer.state) }))
+            .filter(timer => configuration.includes(timer.state) && hasTimer(states.get(timer.state), timer.id)),
+        enteredAt: (snapshot.enteredAt ?? [])
+            .map(entry => ({ ...entry, state: map(entry.state) }))
+            .filter(entry => configuration.includes(entry.state)),
+        takenAt: snapshot.takenAt,
+    };
+    if (snapshot.timersPaused) migrated.timersPaused = true;
+    if ('context' in snapshot) {
+        migrated.context = options?.context ? options.context(snapshot.context as Context) : snapshot.context;
+    }
+
+    // Timers added by the new version start now
+    for (const state of configuration) {
+        for (const { id, timeoutMs } of timersOf(states.get(state))) {
+            const running = migrated.timers.some(timer => timer.state === state && timer.id === id);
+            if (!running) migrated.timers.push({ ...(id === undefined ? {} : { id }), state, deadline: snapshot.takenAt + timeoutMs });
+        }
+    }
+
+    instance.pauseTimers();
+    target.restore(migrated);
+    return { from, to: target.current, fellBack, diff };
+}
+
+/**
+ * Adds the ancestors and the default children of the active states, as the target does when restoring
+ */
+function withHierarchy<StateEnum>(active: StateEnum[], states: Map<StateEnum, SerializedState<StateEnum, any>>): StateEnum[] {
+    const result: StateEnum[] = [];
+    const add = (state: StateEnum) => {
+        if (!result.includes(state)) result.push(state);
+    };
+
+    for (const state of active) {
+        const ancestors: StateEnum[] = [];
+        for (let parent = states.get(state)?.parent; parent !== undefined; parent = states.get(parent)?.parent) {
+            ancestors.unshift(parent);
+        }
+        ancestors.forEach(add);
+        add(state);
+    }
+
+    for (let i = 0; i < result.length; i++) {
+        const compound = states.get(result[i])?.compound;
+        if (!compound) continue;
+
+        if (compound.parallel) {
+            compound.children.forEach(add);
+        } else if (!compound.children.some(child => result.includes(child))) {
+            add(compound.initial);
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Timers of a serialized state, `id` is undefined for the default timer
+ */
+function timersOf<StateEnum>(state: SerializedState<StateEnum, any> | undefined): Array<{ id?: string; timeoutMs: number }> {
+    if (!state) return [];
+    return [
+        ...(state.timeout ? [{ timeoutMs: state.timeout.timeoutMs }] : []),
+        ...(state.timers ?? []).map(({ id, timeoutMs }) => ({ id, timeoutMs })),
+    ];
+}
+
+function hasTimer<StateEnum>(state: SerializedState<StateEnum, any> | undefined, id?: string): boolean {
+    return timersOf(state).some(timer => timer.id === id);
+}
+
+/**
+ * Comparable description of the timer configuration of a state, runtime fields (isActive, remainingMs) are left out
+ */
+function timerKey<StateEnum>(state: SerializedState<StateEnum, any> | undefined): string {
+    const describe = (id: string, timer: { timeoutMs: number; expireTo?: StateEnum; hasCallback: boolean; repeat?: boolean }) =>
+        `${id}:${timer.timeoutMs}:${String(timer.expireTo)}:${timer.hasCallback}:${timer.repeat ?? false}`;
+    return [
+        ...(state?.timeout ? [describe('', state.timeout)] : []),
+        ...(state?.timers ?? []).map(timer => describe(timer.id, timer)),
+    ].sort().join('|');
+}
+
+function sameFields<T extends object>(a: T, b: T): boolean {
+    return (Object.keys(a) as Array<keyof T>).every(key => a[key] === b[key]);
+}
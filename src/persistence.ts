@@ -0,0 +1,154 @@
+import type { TSM, TSMSnapshot } from './tsm';
+
+/**
+ * Storage backend for state machine snapshots, methods may be sync or async
+ */
+export interface SnapshotStorage<StateEnum> {
+    load(key: string): TSMSnapshot<StateEnum> | undefined | Promise<TSMSnapshot<StateEnum> | undefined>;
+    save(key: string, snapshot: TSMSnapshot<StateEnum>): void | Promise<void>;
+    remove(key: string): void | Promise<void>;
+}
+
+/**
+ * Minimal shape of `localStorage` / `sessionStorage`
+ */
+export interface WebStorageLike {
+    getItem(key: string): string | null;
+    setItem(key: string, value: string): void;
+    removeItem(key: string): void;
+}
+
+/**
+ * Minimal shape of the Node `fs` module, passed in so this module has no hard dependency on Node
+ */
+export interface FileSystemLike {
+    existsSync(path: string): boolean;
+    readFileSync(path: string, encoding: 'utf8'): string;
+    writeFileSync(path: string, data: string): void;
+    unlinkSync(path: string): void;
+}
+
+/**
+ * Keeps snapshots in a Map, useful for tests and for machines that only need to survive being recreated
+ */
+export class MemorySnapshotStorage<StateEnum> implements SnapshotStorage<StateEnum> {
+    private _snapshots: Map<string, TSMSnapshot<StateEnum>> = new Map();
+
+    load(key: string): TSMSnapshot<StateEnum> | undefined {
+        const snapshot = this._snapshots.get(key);
+        return snapshot ? structuredCopy(snapshot) : undefined;
+    }
+
+    save(key: string, snapshot: TSMSnapshot<StateEnum>): void {
+        this._snapshots.set(key, structuredCopy(snapshot));
+    }
+
+    remove(key: string): void {
+        this._snapshots.delete(key);
+    }
+}
+
+/**
+ * Stores snapshots as JSON in `localStorage`, `sessionStorage` or anything with the same API
+ *
+ * @example
+ * const storage = new WebStorageSnapshotStorage<UploadState>(window.localStorage);
+ */
+export class WebStorageSnapshotStorage<StateEnum> implements SnapshotStorage<StateEnum> {
+    private _storage: WebStorageLike;
+    private _prefix: string;
+
+    /**
+     * @param storage `localStorage`-like object
+     * @param prefix Prepended to every key (default: `synth-state:`)
+     */
+    constructor(storage: WebStorageLike, prefix = 'synth-state:') {
+        this._storage = storage;
+        this._prefix = prefix;
+    }
+
+    load(key: string): TSMSnapshot<StateEnum> | undefined {
+        const json = this._storage.getItem(this._prefix + key);
+        return json === null ? undefined : JSON.parse(json);
+    }
+
+    save(key: string, snapshot: TSMSnapshot<StateEnum>): void {
+        this._storage.setItem(this._prefix + key, JSON.stringify(snapshot));
+    }
+
+    remove(key: string): void {
+        this._storage.removeItem(this._prefix + key);
+    }
+}
+
+/**
+ * Stores each snapshot as a JSON file `<directory>/<key>.json`
+ *
+ * @example
+ * import * as fs from 'fs';
+ * const storage = new FileSnapshotStorage<UploadState>(fs, './state');
+ */
+export class FileSnapshotStorage<StateEnum> implements SnapshotStorage<StateEnum> {
+    private _fs: FileSystemLike;
+    private _directory: string;
+
+    /**
+     * @param fs The Node `fs` module (or a compatible implementation)
+     * @param directory Existing directory the snapshot files are written to
+     */
+    constructor(fs: FileSystemLike, directory: string) {
+        this._fs = fs;
+        this._directory = directory.replace(/[\\/]+$/, '');
+    }
+
+    load(key: string): TSMSnapshot<StateEnum> | undefined {
+        const path = this._path(key);
+        if (!this._fs.existsSync(path)) return undefined;
+        return JSON.parse(this._fs.readFileSync(path, 'utf8'));
+    }
+
+    save(key: string, snapshot: TSMSnapshot<StateEnum>): void {
+        this._fs.writeFileSync(this._path(key), JSON.stringify(snapshot, null, 2));
+    }
+
+    remove(key: string): void {
+        const path = this._path(key);
+        if (this._fs.existsSync(path)) this._fs.unlinkSync(path);
+    }
+
+    /**
+     * @private
+     */
+    private _path(key: string): string {
+        return `${this._directory}/${encodeURIComponent(key)}.json`;
+    }
+}
+
+/**
+ * Saves a snapshot of the machine under `key`
+ * @param machine State machine to snapshot
+ * @param storage Storage backend
+ * @param key Key to store the snapshot under
+ */
+export async function saveSnapshot<StateEnum>(machine: TSM<StateEnum, any, any>, storage: SnapshotStorage<StateEnum>, key: string): Promise<void> {
+    await storage.save(key, machine.snapshot());
+}
+
+/**
+ * Restores the machine from the snapshot stored under `key`, if there is one
+ * @param machine State machine to restore, already configured with its graph and timeouts
+ * @param storage Storage backend
+ * @param key Key the snapshot was stored under
+ * @returns true if a snapshot was found and restored
+ */
+export async function restoreSnapshot<StateEnum>(machine: TSM<StateEnum, any, any>, storage: SnapshotStorage<StateEnum>, key: string): Promise<boolean> {
+    const snapshot = await storage.load(key);
+    if (!snapshot) return false;
+
+    machine.restore(snapshot);
+    return true;
+}
+
+function structuredCopy<T>(value: T): T {
+    return JSON.parse(JSON.stringify(value));
+}
@@ -0,0 +1,246 @@
+import type { TSM, TransitionCause } from './tsm';
+import type { TSMError } from './errors';
+
+/**
+ * A transition as requested, before it is validated
+ */
+export interface TransitionAttempt<StateEnum, EventEnum = any> {
+    /** Current state when the attempt was made */
+    from: StateEnum;
+    /** Requested target, undefined for an event that is not valid in the current state */
+    to?: StateEnum;
+    cause: TransitionCause;
+    /** Event that was sent, for send() attempts */
+    event?: EventEnum;
+    /** Payload handed to the callbacks */
+    payload?: any;
+}
+
+/**
+ * Outcome of a transition attempt
+ */
+export interface TransitionResult<StateEnum, EventEnum = any> extends TransitionAttempt<StateEnum, EventEnum> {
+    /** The machine moved (failing edge or entry callbacks still count, see `error`) */
+    accepted: boolean;
+    /** Current state after the attempt */
+    current: StateEnum;
+    /** Why the attempt was rejected, or the first callback failure */
+    error?: TSMError<StateEnum, EventEnum>;
+    /** States left by an accepted transition, innermost first. A self transition leaves and enters its state */
+    exited?: StateEnum[];
+    /** States entered by an accepted transition, outermost first */
+    entered?: StateEnum[];
+}
+
+/**
+ * Changes a plugin can make to an attempt, a new `to` is validated like `go(to)`
+ */
+export interface AttemptChange<StateEnum> {
+    to?: StateEnum;
+    payload?: any;
+}
+
+/**
+ * Middleware registered with `use()`. Plugins run in registration order, each one sees the attempt
+ * as changed by the previous ones
+ */
+export interface TSMPlugin<StateEnum = any, EventEnum = any, Context = any> {
+    /** Used in the error message when the plugin blocks a transition */
+    name: string;
+    /** Called once by `use()` */
+    setup?(machine: TSM<StateEnum, EventEnum, Context>): void;
+    /** Called by `eject()`, to release what `setup` acquired */
+    teardown?(machine: TSM<StateEnum, EventEnum, Context>): void;
+    /** Sees every attempt before it is validated. Return false to block it, or an AttemptChange to modify it */
+    onAttempt?(attempt: Readonly<TransitionAttempt<StateEnum, EventEnum>>, machine: TSM<StateEnum, EventEnum, Context>): boolean | void | AttemptChange<StateEnum>;
+    /** Sees the outcome of every attempt, including rejected and blocked ones */
+    onResult?(result: Readonly<TransitionResult<StateEnum, EventEnum>>, machine: TSM<StateEnum, EventEnum, Context>): void;
+}
+
+/**
+ * Structured entry produced by loggerPlugin()
+ */
+export interface TransitionLogEntry<StateEnum, EventEnum = any> {
+    /** `label` option of the plugin */
+    machine?: string;
+    timestamp: number;
+    from: StateEnum;
+    to?: StateEnum;
+    cause: TransitionCause;
+    event?: EventEnum;
+    accepted: boolean;
+    current: StateEnum;
+    /** Name of the error, e.g. InvalidTransitionError */
+    error?: string;
+    /** Rejection reason of an InvalidTransitionError, or the phase of a CallbackError */
+    reason?: string;
+    message?: string;
+}
+
+/**
+ * Options for loggerPlugin()
+ */
+export interface LoggerPluginOptions {
+    /** Added to every entry to tell machines apart */
+    label?: string;
+    /** Only log rejected attempts (default: false) */
+    rejectedOnly?: boolean;
+    /** Time source for the timestamps (default: Date.now) */
+    now?: () => number;
+}
+
+/**
+ * Logs every transition attempt as a structured entry. The library never writes to the console itself,
+ * the entries go to the given sink
+ * @param log Sink for the entries, for example `console.log` or a pino / winston logger
+ * @param options Optional configuration (label, rejectedOnly, now)
+ * @returns Plugin to pass to `use()`
+ *
+ * @example
+ * uploadFSM.use(loggerPlugin(entry => logger.info(entry), { label: 'upload' }));
+ */
+export function loggerPlugin<StateEnum = any, EventEnum = any>(
+    log: (entry: TransitionLogEntry<StateEnum, EventEnum>) => void,
+    options?: LoggerPluginOptions,
+): TSMPlugin<StateEnum, EventEnum> {
+    const now = options?.now ?? Date.now;
+
+    return {
+        name: 'logger',
+        onResult(result) {
+            if (options?.rejectedOnly && result.accepted) return;
+
+            const entry: TransitionLogEntry<StateEnum, EventEnum> = {
+                timestamp: now(),
+                from: result.from,
+                cause: result.cause,
+                accepted: result.accepted,
+                current: result.current,
+            };
+            if (options?.label !== undefined) entry.machine = options.label;
+            if (result.to !== undefined) entry.to = result.to;
+            if (result.event !== undefined) entry.event = result.event;
+            if (result.error) {
+                entry.error = result.error.name;
+                entry.message = result.error.message;
+                if ('reason' in result.error) entry.reason = result.error.reason;
+                if ('phase' in result.error) entry.reason = result.error.phase;
+            }
+            log(entry);
+        },
+    };
+}
+
+/**
+ * Counters collected by metricsPlugin()
+ */
+export interface StateMetrics<StateEnum> {
+    /** Milliseconds spent in each state, including the time so far in the active ones */
+    timeInState: Map<StateEnum, number>;
+    /** Number of times each state became the current state */
+    visits: Map<StateEnum, number>;
+    /** Accepted transitions */
+    transitions: number;
+    /** Rejected or blocked attempts */
+    rejections: number;
+}
+
+/**
+ * Plugin returned by metricsPlugin()
+ */
+export interface MetricsPlugin<StateEnum> extends TSMPlugin<StateEnum> {
+    /** Snapshot of the counters */
+    getMetrics(): StateMetrics<StateEnum>;
+    /** Sets every counter back to zero, the active states start counting from now */
+    reset(): void;
+}
+
+/**
+ * Records the time spent in each active state (parents and parallel regions included),
+ * the visits per state and the number of accepted and rejected transitions.
+ * Time follows every change of the configuration, including `restore()` which bypasses the plugins.
+ * Use one plugin per machine
+ * @param options Optional configuration (now: time source, pass `clock.now.bind(clock)` with a VirtualClock)
+ * @returns Plugin to pass to `use()`, with `getMetrics()` and `reset()`
+ *
+ * @example
+ * const metrics = metricsPlugin<PlayerState>();
+ * player.use(metrics);
+ * // later
+ * metrics.getMetrics().timeInState.get(PlayerState.Buffering);
+ */
+export function metricsPlugin<StateEnum>(options?: { now?: () => number }): MetricsPlugin<StateEnum> {
+    const now = options?.now ?? Date.now;
+    let machine: TSM<StateEnum, any, any> | undefined;
+    let unsubscribe: (() => void) | undefined;
+    let timeInState = new Map<StateEnum, number>();
+    let visits = new Map<StateEnum, number>();
+    let transitions = 0;
+    let rejections = 0;
+    /** Active states with the time they became active */
+    let since = new Map<StateEnum, number>();
+
+    const addTime = (state: StateEnum, until: number) => {
+        timeInState.set(state, (timeInState.get(state) ?? 0) + until - (since.get(state) ?? until));
+    };
+
+    // Closes the time of the states that are no longer active and starts the newly active ones
+    const sync = () => {
+        if (!machine) return;
+        const time = now();
+        const configuration = machine.configuration;
+
+        for (const state of since.keys()) {
+            if (configuration.includes(state)) continue;
+            addTime(state, time);
+            since.delete(state);
+        }
+        for (const state of configuration) {
+            if (!since.has(state)) since.set(state, time);
+        }
+    };
+
+    return {
+        name: 'metrics',
+        setup(target) {
+            machine = target;
+            // Called right away, then on every change
+            unsubscribe = target.subscribe(sync);
+        },
+        teardown() {
+            // Stops the clock of the active states, the totals stay readable
+            unsubscribe?.();
+            const time = now();
+            for (const state of since.keys()) addTime(state, time);
+            since = new Map();
+            machine = undefined;
+        },
+        onResult(result) {
+            if (!result.accepted) {
+                rejections++;
+                return;
+            }
+
+            transitions++;
+            visits.set(result.current, (visits.get(result.current) ?? 0) + 1);
+            sync();
+        },
+        getMetrics() {
+            sync();
+            const time = now();
+            const totals = new Map(timeInState);
+            for (const [state, start] of since) {
+                totals.set(state, (totals.get(state) ?? 0) + time - start);
+            }
+            return { timeInState: totals, visits: new Map(visits), transitions, rejections };
+        },
+        reset() {
+            timeInState = new Map();
+            visits = new Map();
+            transitions = 0;
+            rejections = 0;
+            since = new Map();
+            sync();
+        },
+    };
+}
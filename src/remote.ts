@@ -0,0 +1,397 @@
+import { PortEventDispatcher, type MessagePortLike, type PortEventDispatcherOptions } from './dispatcher';
+import { InvalidTransitionError } from './errors';
+import type { TransitionResult } from './plugins';
+import type { GoOptions, TransitionCause, TSM } from './tsm';
+
+/**
+ * State mirrored by a MachineProxy, pushed by the exposed machine whenever it changes
+ */
+export interface RemoteMachineState<StateEnum, EventEnum = string, Context = any> {
+    current: StateEnum;
+    previous: StateEnum;
+    /** Every active state, outermost first */
+    configuration: StateEnum[];
+    context: Context;
+    /** Valid targets when the state was pushed */
+    validTransitions: StateEnum[];
+    /** Events handled when the state was pushed */
+    validEvents: EventEnum[];
+}
+
+/**
+ * Transition pushed by the exposed machine, including the ones caused by timeouts
+ */
+export interface RemoteTransition<StateEnum, EventEnum = string, Context = any> {
+    from: StateEnum;
+    to: StateEnum;
+    cause: TransitionCause;
+    event?: EventEnum;
+    /** Payload handed to the callbacks */
+    payload?: any;
+    /** States left by the transition, innermost first */
+    exited: StateEnum[];
+    /** States entered by the transition, outermost first */
+    entered: StateEnum[];
+    /** State once the transition completed */
+    state: RemoteMachineState<StateEnum, EventEnum, Context>;
+}
+
+/**
+ * Contract of the PortEventDispatchers used by exposeMachine() and createMachineProxy()
+ */
+export interface RemoteMachineEvents<StateEnum, EventEnum = string, Context = any> {
+    'tsm:sync': () => RemoteMachineState<StateEnum, EventEnum, Context>;
+    'tsm:go': (to: StateEnum, options?: GoOptions) => StateEnum;
+    'tsm:send': (event: EventEnum, payload?: any, options?: GoOptions) => StateEnum;
+    'tsm:update': (state: RemoteMachineState<StateEnum, EventEnum, Context>) => void;
+    'tsm:transition': (transition: RemoteTransition<StateEnum, EventEnum, Context>) => void;
+}
+
+/**
+ * Callback registered on a MachineProxy, called like the TSM callbacks with the payload of `send`
+ */
+export type RemoteStateCallback<StateEnum, Context = any> = (from: StateEnum, to: StateEnum, event: any, context: Context) => void;
+
+/**
+ * Exposes a machine over a message port so a MachineProxy on the other side can mirror and drive it.
+ * Context and payloads must be structured-cloneable. Use one port (e.g. a `MessageChannel`) per machine
+ * @param machine Machine to expose, usually inside a worker
+ * @param port Worker, MessagePort, `self` or `parentPort`
+ * @returns Function that stops exposing the machine, the port itself is left open
+ *
+ * @example
+ * // worker.js
+ * const player = createPlayerMachine();
+ * exposeMachine(player, parentPort!);
+ */
+export function exposeMachine<StateEnum, EventEnum, Context>(
+    machine: TSM<StateEnum, EventEnum, Context>,
+    port: MessagePortLike,
+): () => void {
+    const dispatcher = new PortEventDispatcher<RemoteMachineEvents<StateEnum, EventEnum, Context>>(port);
+    const describe = (): RemoteMachineState<StateEnum, EventEnum, Context> => ({
+        current: machine.current,
+        previous: machine.previous,
+        configuration: machine.configuration,
+        context: machine.context,
+        validTransitions: machine.getValidTransitions(),
+        validEvents: machine.getValidEvents(),
+    });
+
+    dispatcher.on('tsm:sync', describe);
+    dispatcher.on('tsm:go', (to, options) => machine.go(to, options));
+    dispatcher.on('tsm:send', (event, payload, options) => machine.send(event, payload, options));
+
+    // Skips the immediate call of subscribe(), the proxy asks for the state with tsm:sync
+    let subscribed = false;
+    const unsubscribe = machine.subscribe(() => {
+        if (subscribed) dispatcher.dispatch('tsm:update', describe());
+    });
+    subscribed = true;
+
+    const plugin = {
+        name: 'remote',
+        onResult(result: Readonly<TransitionResult<StateEnum, EventEnum>>) {
+            if (!result.accepted || result.to === undefined) return;
+            dispatcher.dispatch('tsm:transition', {
+                from: result.from,
+                to: result.to,
+                cause: result.cause,
+                event: result.event,
+                payload: result.payload,
+                exited: result.exited ?? [],
+                entered: result.entered ?? [],
+                state: describe(),
+            });
+        },
+    };
+    machine.use(plugin);
+
+    return () => {
+        unsubscribe();
+        machine.eject(plugin);
+        dispatcher.close();
+    };
+}
+
+/**
+ * Connects to a machine exposed with exposeMachine() on the other side of the port
+ * @param port Worker, MessagePort, `self` or `parentPort`
+ * @param options Optional configuration (timeoutMs for the replies, onListenerError for failing callbacks)
+ * @returns Promise resolving to the proxy once the current state was received
+ *
+ * @example
+ * const player = await createMachineProxy<PlayerState>(new Worker('./player.js'), { timeoutMs: 1000 });
+ * player.on(PlayerState.Buffering, () => spinner.show());
+ * await player.go(PlayerState.Playing);
+ */
+export async function createMachineProxy<StateEnum, EventEnum = string, Context = any>(
+    port: MessagePortLike,
+    options?: PortEventDispatcherOptions,
+): Promise<MachineProxy<StateEnum, EventEnum, Context>> {
+    const dispatcher = new PortEventDispatcher<RemoteMachineEvents<StateEnum, EventEnum, Context>>(port, options);
+    try {
+        const state = await dispatcher.dispatchPromise('tsm:sync');
+        return new MachineProxy(dispatcher, state, options?.onListenerError);
+    } catch (error) {
+        dispatcher.close();
+        throw error;
+    }
+}
+
+/**
+ * Mirror of a machine running on the other side of a message port, created by createMachineProxy().
+ *
+ * - `current`, `previous`, `configuration`, `context` and the valid transitions and events are kept up to date
+ *   by the pushed changes, timeouts included
+ * - `go` and `send` are forwarded and resolve to the remote current state, the mirror is already updated by then
+ * - `on`, `onExit` and `onTransition` fire for every remote transition
+ * - A throwing callback or subscriber does not stop the others, its error goes to `onListenerError`
+ */
+export class MachineProxy<StateEnum, EventEnum = string, Context = any> {
+    private _dispatcher: PortEventDispatcher<RemoteMachineEvents<StateEnum, EventEnum, Context>>;
+    private _state: RemoteMachineState<StateEnum, EventEnum, Context>;
+    private _cbMap: Map<StateEnum, Array<RemoteStateCallback<StateEnum, Context>>> = new Map();
+    private _exitCbMap: Map<StateEnum, Array<RemoteStateCallback<StateEnum, Context>>> = new Map();
+    private _transitionCbs: Array<{ from: StateEnum; to: StateEnum; callback: RemoteStateCallback<StateEnum, Context> }> = [];
+    private _listeners: Array<(state: RemoteMachineState<StateEnum, EventEnum, Context>) => void> = [];
+    private _onListenerError?: (error: unknown, event: PropertyKey) => void;
+
+    /**
+     * @param dispatcher Dispatcher connected to an exposed machine
+     * @param state State received from the machine
+     * @param onListenerError Called with the errors of the callbacks and subscribers (optional, dropped without it)
+     */
+    constructor(
+        dispatcher: PortEventDispatcher<RemoteMachineEvents<StateEnum, EventEnum, Context>>,
+        state: RemoteMachineState<StateEnum, EventEnum, Context>,
+        onListenerError?: (error: unknown, event: PropertyKey) => void,
+    ) {
+        this._dispatcher = dispatcher;
+        this._state = state;
+        this._onListenerError = onListenerError;
+
+        dispatcher.on('tsm:update', update => this._update(update));
+        dispatcher.on('tsm:transition', transition => this._transition(transition));
+    }
+
+    get current(): StateEnum {
+        return this._state.current;
+    }
+
+    get previous(): StateEnum {
+        return this._state.previous;
+    }
+
+    /**
+     * Every active state, outermost first
+     */
+    get configuration(): StateEnum[] {
+        return [...this._state.configuration];
+    }
+
+    get context(): Context {
+        return this._state.context;
+    }
+
+    /**
+     * Checks whether a state is active, as an innermost state, a parent or a parallel region
+     */
+    matches(state: StateEnum): boolean {
+        return this._state.configuration.includes(state);
+    }
+
+    /**
+     * Valid targets as of the last pushed change. Guards depending on time may have changed since
+     */
+    getValidTransitions(): StateEnum[] {
+        return [...this._state.validTransitions];
+    }
+
+    canTransition(state: StateEnum): boolean {
+        return this._state.validTransitions.includes(state);
+    }
+
+    /**
+     * Events handled as of the last pushed change
+     */
+    getValidEvents(): EventEnum[] {
+        return [...this._state.validEvents];
+    }
+
+    canSend(event: EventEnum): boolean {
+        return this._state.validEvents.includes(event);
+    }
+
+    /**
+     * Asks the remote machine to transition
+     * @param state Target state
+     * @param options Optional configuration (throwOnInvalid: reject with the remote InvalidTransitionError)
+     * @returns Promise resolving to the remote current state
+     */
+    go(state: StateEnum, options?: GoOptions): Promise<StateEnum> {
+        return this._dispatcher.dispatchPromise('tsm:go', state, options).catch(reviveError);
+    }
+
+    /**
+     * Sends an event to the remote machine
+     * @param event Event to send
+     * @param payload Structured-cloneable payload handed to the remote callbacks
+     * @param options Optional configuration (throwOnInvalid: reject with the remote InvalidTransitionError)
+     * @returns Promise resolving to the remote current state
+     */
+    send(event: EventEnum, payload?: any, options?: GoOptions): Promise<StateEnum> {
+        return this._dispatcher.dispatchPromise('tsm:send', event, payload, options).catch(reviveError);
+    }
+
+    /**
+     * Registers a callback for when the remote machine enters a state
+     * @returns This proxy for method chaining
+     */
+    on(to: StateEnum, callback: RemoteStateCallback<StateEnum, Context>): MachineProxy<StateEnum, EventEnum, Context> {
+        this._addCallback(this._cbMap, to, callback);
+        return this;
+    }
+
+    /**
+     * Registers a callback for when the remote machine leaves a state
+     * @returns This proxy for method chaining
+     */
+    onExit(from: StateEnum, callback: RemoteStateCallback<StateEnum, Context>): MachineProxy<StateEnum, EventEnum, Context> {
+        this._addCallback(this._exitCbMap, from, callback);
+        return this;
+    }
+
+    /**
+     * Registers a callback for the remote transitions that leave `from` and enter `to`
+     * @returns This proxy for method chaining
+     */
+    onTransition(from: StateEnum, to: StateEnum, callback: RemoteStateCallback<StateEnum, Context>): MachineProxy<StateEnum, EventEnum, Context> {
+        this._transitionCbs.push({ from, to, callback });
+        return this;
+    }
+
+    /**
+     * Removes a callback registered with `on` or `onExit` for a state, or with `onTransition` from or to it
+     * @param state State the callback was registered for
+     * @param callback The function that was registered
+     * @returns This proxy for method chaining
+     */
+    off(state: StateEnum, callback: RemoteStateCallback<StateEnum, Context>): MachineProxy<StateEnum, EventEnum, Context> {
+        this._removeCallback(this._cbMap, state, callback);
+        this._removeCallback(this._exitCbMap, state, callback);
+        this._transitionCbs = this._transitionCbs.filter(cb => cb.callback !== callback || (cb.from !== state && cb.to !== state));
+        return this;
+    }
+
+    /**
+     * Calls the listener with the mirrored state now and after every pushed change
+     * @returns Function that removes the listener
+     */
+    subscribe(listener: (state: RemoteMachineState<StateEnum, EventEnum, Context>) => void): () => void {
+        this._listeners.push(listener);
+        listener(this._state);
+
+        return () => {
+            this._listeners = this._listeners.filter(l => l !== listener);
+        };
+    }
+
+    /**
+     * Stops mirroring and rejects the pending `go` / `send` calls, the remote machine keeps running
+     */
+    close(): void {
+        this._dispatcher.close();
+    }
+
+    /**
+     * @private
+     */
+    private _addCallback(
+        map: Map<StateEnum, Array<RemoteStateCallback<StateEnum, Context>>>,
+        state: StateEnum,
+        callback: RemoteStateCallback<StateEnum, Context>,
+    ): void {
+        const callbacks = map.get(state) ?? [];
+        callbacks.push(callback);
+        map.set(state, callbacks);
+    }
+
+    /**
+     * @private
+     */
+    private _removeCallback(
+        map: Map<StateEnum, Array<RemoteStateCallback<StateEnum, Context>>>,
+        state: StateEnum,
+        callback: RemoteStateCallback<StateEnum, Context>,
+    ): void {
+        const callbacks = map.get(state)?.filter(cb => cb !== callback) ?? [];
+        if (callbacks.length > 0) {
+            map.set(state, callbacks);
+        } else {
+            map.delete(state);
+        }
+    }
+
+    /**
+     * Runs a callback or subscriber so that its error does not reach the port's message handler
+     * @private
+     */
+    private _call(event: keyof RemoteMachineEvents<StateEnum, EventEnum, Context>, run: () => void): void {
+        try {
+            run();
+        } catch (error) {
+            this._onListenerError?.(error, event);
+        }
+    }
+
+    /**
+     * @private
+     */
+    private _update(state: RemoteMachineState<StateEnum, EventEnum, Context>): void {
+        this._state = state;
+        for (const listener of [...this._listeners]) {
+            this._call('tsm:update', () => listener(state));
+        }
+    }
+
+    /**
+     * Fires the exit, transition and entry callbacks for the states the remote machine left and entered.
+     * Like on the machine, callbacks receive the innermost state that was entered as `to`
+     * @private
+     */
+    private _transition(transition: RemoteTransition<StateEnum, EventEnum, Context>): void {
+        const { from, exited, entered, payload, state } = transition;
+        // The subscribers are called by the tsm:update pushed along with the transition
+        this._state = state;
+        const to = state.current;
+
+        const call = (callbacks: Array<RemoteStateCallback<StateEnum, Context>> | undefined) => {
+            for (const callback of [...(callbacks ?? [])]) {
+                this._call('tsm:transition', () => callback(from, to, payload, state.context));
+            }
+        };
+
+        exited.forEach(active => call(this._exitCbMap.get(active)));
+        call(this._transitionCbs.filter(cb => exited.includes(cb.from) && entered.includes(cb.to)).map(cb => cb.callback));
+        entered.forEach(active => call(this._cbMap.get(active)));
+    }
+}
+
+/**
+ * Rebuilds the InvalidTransitionError of the remote machine from the fields carried over the port
+ */
+function reviveError<StateEnum, EventEnum>(error: unknown): never {
+    if (!(error instanceof Error) || error.name !== 'InvalidTransitionError') throw error;
+
+    const details = error as Error & Pick<InvalidTransitionError<StateEnum, EventEnum>, 'from' | 'to' | 'validTargets' | 'reason' | 'event'>;
+    const revived = new InvalidTransitionError<StateEnum, EventEnum>(error.message, {
+        from: details.from,
+        to: details.to,
+        validTargets: details.validTargets,
+        reason: details.reason,
+        event: details.event,
+    });
+    revived.stack = error.stack;
+    throw revived;
+}
@@ -0,0 +1,83 @@
+import type { TSM, TSMObservable, TSMState } from './tsm';
+
+/**
+ * Bound store functions for React's `useSyncExternalStore`
+ */
+export interface ExternalStore<T> {
+    subscribe(onStoreChange: () => void): () => void;
+    getSnapshot(): T;
+    getServerSnapshot(): T;
+}
+
+/**
+ * Svelte store contract (`$store` syntax)
+ */
+export interface Readable<T> {
+    subscribe(run: (value: T) => void): () => void;
+}
+
+/**
+ * Wraps a machine for React's `useSyncExternalStore`, the functions are bound so they can be passed as-is
+ * @param machine State machine to observe
+ * @returns subscribe / getSnapshot / getServerSnapshot
+ *
+ * @example
+ * const store = toExternalStore(uploadFSM);
+ * function UploadStatus() {
+ *   const { current } = useSyncExternalStore(store.subscribe, store.getSnapshot, store.getServerSnapshot);
+ *   return <span>{current}</span>;
+ * }
+ */
+export function toExternalStore<StateEnum, Context>(machine: TSM<StateEnum, any, Context>): ExternalStore<TSMState<StateEnum, Context>> {
+    const getSnapshot = () => machine.getSnapshot();
+    return {
+        subscribe: (onStoreChange) => machine.subscribe(() => onStoreChange()),
+        getSnapshot,
+        getServerSnapshot: getSnapshot,
+    };
+}
+
+/**
+ * Svelte readable store of a selected part of the machine state, only emitting when the selection changes.
+ * The machine itself is already a valid store of its full state
+ * @param machine State machine to observe
+ * @param select Picks the value to expose (default: the current state)
+ * @returns Readable store
+ *
+ * @example
+ * const status = toReadable(uploadFSM);
+ * const retries = toReadable(connection, state => state.context.retries);
+ * // {$status} / {$retries} in a component
+ */
+export function toReadable<StateEnum, Context, T = StateEnum>(
+    machine: TSM<StateEnum, any, Context>,
+    select: (state: TSMState<StateEnum, Context>) => T = state => state.current as unknown as T,
+): Readable<T> {
+    return {
+        subscribe(run) {
+            let initialized = false;
+            let last: T;
+
+            return machine.subscribe(state => {
+                const value = select(state);
+                if (initialized && Object.is(value, last)) return;
+
+                initialized = true;
+                last = value;
+                run(value);
+            });
+        },
+    };
+}
+
+/**
+ * ES Observable of the machine state, for libraries that do not look up `Symbol.observable` themselves
+ * @param machine State machine to observe
+ * @returns Observable emitting the current state immediately and then on every change
+ *
+ * @example
+ * from(toObservable(uploadFSM)).pipe(map(state => state.current)).subscribe(console.log);
+ */
+export function toObservable<StateEnum, Context>(machine: TSM<StateEnum, any, Context>): TSMObservable<TSMState<StateEnum, Context>> {
+    return machine['@@observable']();
+}
@@ -0,0 +1,418 @@
+import { findShortestPath } from './analysis';
+import { VirtualClock } from './clock';
+import { InvalidTransitionError, type TSMError } from './errors';
+import type { TSM } from './tsm';
+
+/**
+ * One step of a test sequence: a `go` to a state, or advancing the virtual clock to the next pending timer
+ */
+export type TestStep<StateEnum> =
+    | { type: 'go'; to: StateEnum }
+    | { type: 'timeout' };
+
+/**
+ * Named sequence of steps starting from the initial state
+ */
+export interface TestPath<StateEnum> {
+    /** States visited, e.g. `Idle -> Loading -> Done` */
+    name: string;
+    steps: Array<TestStep<StateEnum>>;
+}
+
+/**
+ * Creates a fresh machine for every path or walk. Pass the clock as `scheduler` so timeouts can be driven by the tests
+ */
+export type MachineFactory<StateEnum, EventEnum, Context> = (clock: VirtualClock) => TSM<StateEnum, EventEnum, Context>;
+
+/**
+ * Checks the machine after the initial state and after every step, fails by throwing or returning false
+ */
+export type StateAssertion<StateEnum, EventEnum, Context> = (
+    machine: TSM<StateEnum, EventEnum, Context>,
+    step: TestStep<StateEnum> | undefined,
+) => boolean | void;
+
+/**
+ * Options shared by runPath(), testPaths() and randomWalks()
+ */
+export interface ModelTestOptions<StateEnum, EventEnum, Context> {
+    /** Assertions run whenever their state is active (parents and parallel regions included) */
+    assertions?: Map<StateEnum, StateAssertion<StateEnum, EventEnum, Context>>;
+    /** Assertion run after every step whatever the state */
+    invariant?: StateAssertion<StateEnum, EventEnum, Context>;
+    /** Throw an error describing the first failure instead of returning it */
+    throwOnFailure?: boolean;
+}
+
+/**
+ * Options for randomWalks()
+ */
+export interface RandomWalkOptions<StateEnum, EventEnum, Context> extends ModelTestOptions<StateEnum, EventEnum, Context> {
+    /** Seed of the first walk, walk `i` uses `seed + i` (default: Date.now()) */
+    seed?: number;
+    /** Number of walks (default: 100) */
+    runs?: number;
+    /** Maximum steps per walk (default: 50) */
+    maxSteps?: number;
+    /** Chance of letting the next timer expire instead of taking a transition, when a timer is pending (default: 0.2) */
+    timeoutChance?: number;
+}
+
+/**
+ * Outcome of running a sequence of steps
+ * - `assertion`: an assertion threw or returned false
+ * - `invalid`: a step could not be taken (rejected transition or no pending timer)
+ * - `error`: the machine reported an error, e.g. a failing callback or a timeout with an invalid expireTo
+ */
+export interface PathResult<StateEnum> {
+    passed: boolean;
+    /** Steps that were run, up to and including the failing one */
+    steps: Array<TestStep<StateEnum>>;
+    failure?: 'assertion' | 'invalid' | 'error';
+    /** Index of the failing step, -1 when the initial state failed */
+    failedAt?: number;
+    /** Current state when the failure happened */
+    state?: StateEnum;
+    error?: unknown;
+}
+
+/**
+ * Failing random walk
+ */
+export interface WalkFailure<StateEnum> extends PathResult<StateEnum> {
+    /** Pass it as `seed` with `runs: 1` to replay the walk */
+    seed: number;
+    /** Shortest sequence found that still fails, replay it with runPath() */
+    shrunk: Array<TestStep<StateEnum>>;
+}
+
+/**
+ * Result of randomWalks()
+ */
+export interface RandomWalkReport<StateEnum> {
+    /** Walks run, the walks stop at the first failure */
+    runs: number;
+    /** Every state that was active during a walk */
+    visited: StateEnum[];
+    failure?: WalkFailure<StateEnum>;
+}
+
+/**
+ * Paths from the initial state that together take every transition of the machine at least once.
+ * Guards are assumed to pass, transitions leaving unreachable states are left out
+ * @param machine Machine to cover
+ * @returns One path per transition not already taken by an earlier path, leaving out paths that are the start of a longer one
+ *
+ * @example
+ * const paths = transitionCover(createUpload(new VirtualClock()));
+ * testPaths(createUpload, paths, { assertions, throwOnFailure: true });
+ */
+export function transitionCover<StateEnum, EventEnum, Context>(machine: TSM<StateEnum, EventEnum, Context>): Array<TestPath<StateEnum>> {
+    const serialized = machine.serializeStateMachine();
+    const paths: StateEnum[][] = [];
+    const taken = new Set<string>();
+
+    for (const state of serialized.states) {
+        for (const to of state.toStates) {
+            if (taken.has(edgeKey(state.state, to))) continue;
+
+            const prefix = findShortestPath(serialized, serialized.initial, state.state);
+            if (!prefix) continue;
+
+            const visited = [...prefix, to];
+            visited.slice(1).forEach((next, i) => taken.add(edgeKey(visited[i], next)));
+            paths.push(visited);
+        }
+    }
+
+    return withoutPrefixes(paths).map(toTestPath);
+}
+
+/**
+ * Shortest paths from the initial state to every reachable state, leaving out paths that are the start of a longer one
+ * @param machine Machine to cover
+ * @returns The paths, longest first
+ */
+export function stateCover<StateEnum, EventEnum, Context>(machine: TSM<StateEnum, EventEnum, Context>): Array<TestPath<StateEnum>> {
+    const serialized = machine.serializeStateMachine();
+    const paths = serialized.states
+        .map(state => findShortestPath(serialized, serialized.initial, state.state))
+        .filter((path): path is StateEnum[] => path !== undefined)
+        .sort((a, b) => b.length - a.length);
+
+    return withoutPrefixes(paths).map(toTestPath);
+}
+
+/**
+ * Runs a sequence of steps on a fresh machine, checking the assertions of the active states
+ * on the initial state and after every step
+ * @param createMachine Factory for the machine under test
+ * @param steps Steps to take
+ * @param options Optional configuration (assertions, invariant, throwOnFailure)
+ * @returns Whether the path passed, and where and why it failed otherwise
+ * @throws {Error} Describing the failure if throwOnFailure is set
+ *
+ * @example
+ * runPath(createUpload, failure.shrunk, { assertions, throwOnFailure: true });
+ */
+export function runPath<StateEnum, EventEnum, Context>(
+    createMachine: MachineFactory<StateEnum, EventEnum, Context>,
+    steps: ReadonlyArray<TestStep<StateEnum>>,
+    options?: ModelTestOptions<StateEnum, EventEnum, Context>,
+): PathResult<StateEnum> {
+    const clock = new VirtualClock();
+    const machine = createMachine(clock);
+    const result = execute(machine, clock, steps, options);
+    if (options?.throwOnFailure && !result.passed) {
+        throw new Error(describeFailure('Path', result));
+    }
+    return result;
+}
+
+/**
+ * Runs each path on a fresh machine
+ * @param createMachine Factory for the machine under test
+ * @param paths Output of transitionCover() or stateCover(), or hand written paths
+ * @param options Optional configuration (assertions, invariant, throwOnFailure)
+ * @returns One result per path
+ * @throws {Error} Describing the first failing path if throwOnFailure is set
+ */
+export function testPaths<StateEnum, EventEnum, Context>(
+    createMachine: MachineFactory<StateEnum, EventEnum, Context>,
+    paths: ReadonlyArray<TestPath<StateEnum>>,
+    options?: ModelTestOptions<StateEnum, EventEnum, Context>,
+): Array<PathResult<StateEnum>> {
+    return paths.map(path => {
+        const result = runPath(createMachine, path.steps, { ...options, throwOnFailure: false });
+        if (options?.throwOnFailure && !result.passed) {
+            throw new Error(describeFailure(`Path ${path.name}`, result));
+        }
+        return result;
+    });
+}
+
+/**
+ * Seeded random walks through the machine: each step takes a random valid transition or, when a timer is pending,
+ * lets the next timer expire. Walks stop at the first failure, which is shrunk to a minimal failing sequence
+ * @param createMachine Factory for the machine under test, it must use the given clock for timeouts to be walked
+ * @param options Optional configuration (seed, runs, maxSteps, timeoutChance, assertions, invariant, throwOnFailure)
+ * @returns The number of walks, the states visited and the failure if any
+ * @throws {Error} With the seed and the shrunk sequence if throwOnFailure is set and a walk failed
+ *
+ * @example
+ * const report = randomWalks(
+ *   clock => createConnection(clock),
+ *   { runs: 500, assertions: new Map([[ConnState.Open, machine => machine.context.socket !== null]]) },
+ * );
+ * // replay a failure
+ * randomWalks(createConnection, { seed: report.failure.seed, runs: 1 });
+ */
+export function randomWalks<StateEnum, EventEnum, Context>(
+    createMachine: MachineFactory<StateEnum, EventEnum, Context>,
+    options?: RandomWalkOptions<StateEnum, EventEnum, Context>,
+): RandomWalkReport<StateEnum> {
+    const seed = options?.seed ?? Date.now();
+    const runs = options?.runs ?? 100;
+    const visited = new Set<StateEnum>();
+
+    for (let run = 0; run < runs; run++) {
+        const walkSeed = (seed + run) >>> 0;
+        const steps = walk(createMachine, walkSeed, visited, options);
+        const result = runPath(createMachine, steps, { ...options, throwOnFailure: false });
+        if (result.passed) continue;
+
+        const failure: WalkFailure<StateEnum> = {
+            ...result,
+            seed: walkSeed,
+            shrunk: shrink(createMachine, result.steps, options),
+        };
+        if (options?.throwOnFailure) {
+            throw new Error(`${describeFailure(`Random walk (seed ${walkSeed})`, result)}\nShrunk: ${formatSteps(failure.shrunk)}`);
+        }
+        return { runs: run + 1, visited: Array.from(visited), failure };
+    }
+
+    return { runs, visited: Array.from(visited) };
+}
+
+/**
+ * Human readable form of a step sequence
+ * @param steps Steps to format
+ * @returns e.g. `go(Loading), timeout, go(Done)`
+ */
+export function formatSteps<StateEnum>(steps: ReadonlyArray<TestStep<StateEnum>>): string {
+    if (steps.length === 0) return '(initial state)';
+    return steps.map(step => step.type === 'go' ? `go(${step.to})` : 'timeout').join(', ');
+}
+
+/**
+ * Takes the steps on the machine, stopping at the first failure
+ */
+function execute<StateEnum, EventEnum, Context>(
+    machine: TSM<StateEnum, EventEnum, Context>,
+    clock: VirtualClock,
+    steps: ReadonlyArray<TestStep<StateEnum>>,
+    options?: ModelTestOptions<StateEnum, EventEnum, Context>,
+): PathResult<StateEnum> {
+    // Errors the machine reports instead of throwing (callbacks, timeouts with an invalid expireTo)
+    const reported: Array<TSMError<StateEnum, EventEnum>> = [];
+    machine.onError(error => reported.push(error));
+
+    const fail = (index: number, failure: 'assertion' | 'invalid' | 'error', error: unknown): PathResult<StateEnum> => ({
+        passed: false,
+        steps: steps.slice(0, index + 1),
+        failure,
+        failedAt: index,
+        state: machine.current,
+        error,
+    });
+
+    const check = (index: number, step?: TestStep<StateEnum>): PathResult<StateEnum> | undefined => {
+        if (reported.length > 0) return fail(index, 'error', reported[0]);
+
+        const assertions = [
+            ...(options?.invariant ? [options.invariant] : []),
+            ...machine.configuration.flatMap(state => options?.assertions?.get(state) ?? []),
+        ];
+        for (const assertion of assertions) {
+            try {
+                if (assertion(machine, step) === false) {
+                    return fail(index, 'assertion', new Error(`Assertion failed in state ${machine.current}`));
+                }
+            } catch (error) {
+                return fail(index, 'assertion', error);
+            }
+        }
+        return undefined;
+    };
+
+    const initial = check(-1);
+    if (initial) return initial;
+
+    for (const [index, step] of steps.entries()) {
+        try {
+            if (step.type === 'go') {
+                machine.go(step.to, { throwOnInvalid: true });
+            } else if (!clock.next()) {
+                return fail(index, 'invalid', new Error(`No timer pending in state ${machine.current}`));
+            }
+        } catch (error) {
+            return fail(index, error instanceof InvalidTransitionError ? 'invalid' : 'error', error);
+        }
+
+        const failed = check(index, step);
+        if (failed) return failed;
+    }
+
+    return { passed: true, steps: [...steps] };
+}
+
+/**
+ * Generates the steps of one random walk, the walk ends early in a state without transitions or timers
+ */
+function walk<StateEnum, EventEnum, Context>(
+    createMachine: MachineFactory<StateEnum, EventEnum, Context>,
+    seed: number,
+    visited: Set<StateEnum>,
+    options?: RandomWalkOptions<StateEnum, EventEnum, Context>,
+): Array<TestStep<StateEnum>> {
+    const random = mulberry32(seed);
+    const clock = new VirtualClock();
+    const machine = createMachine(clock);
+    const timeoutChance = options?.timeoutChance ?? 0.2;
+    const steps: Array<TestStep<StateEnum>> = [];
+    // The walk only explores, failures are found when the steps are run again
+    machine.onError(() => undefined);
+    machine.configuration.forEach(state => visited.add(state));
+
+    try {
+        while (steps.length < (options?.maxSteps ?? 50)) {
+            const targets = machine.getValidTransitions();
+            const expire = clock.pending > 0 && (targets.length === 0 || random() < timeoutChance);
+
+            if (expire) {
+                steps.push({ type: 'timeout' });
+                clock.next();
+            } else if (targets.length > 0) {
+                const to = targets[Math.floor(random() * targets.length)];
+                steps.push({ type: 'go', to });
+                machine.go(to);
+            } else {
+                break;
+            }
+            machine.configuration.forEach(state => visited.add(state));
+        }
+    } catch {
+        // A throwing callback ends the walk, runPath() reports it
+    }
+
+    return steps;
+}
+
+/**
+ * Removes chunks of steps, halving the chunk size down to single steps, as long as the sequence keeps failing
+ * with an assertion or an error. Sequences that become invalid do not count as failing
+ */
+function shrink<StateEnum, EventEnum, Context>(
+    createMachine: MachineFactory<StateEnum, EventEnum, Context>,
+    steps: Array<TestStep<StateEnum>>,
+    options?: ModelTestOptions<StateEnum, EventEnum, Context>,
+): Array<TestStep<StateEnum>> {
+    const stillFails = (candidate: Array<TestStep<StateEnum>>) => {
+        const result = runPath(createMachine, candidate, { ...options, throwOnFailure: false });
+        return !result.passed && result.failure !== 'invalid' ? result.steps : undefined;
+    };
+
+    let shrunk = steps;
+    for (let size = Math.max(1, Math.floor(shrunk.length / 2)); size >= 1; size = Math.floor(size / 2)) {
+        for (let start = 0; start + size <= shrunk.length;) {
+            const smaller = stillFails([...shrunk.slice(0, start), ...shrunk.slice(start + size)]);
+            if (smaller) {
+                shrunk = smaller;
+            } else {
+                start++;
+            }
+        }
+    }
+
+    return shrunk;
+}
+
+function describeFailure<StateEnum>(label: string, result: PathResult<StateEnum>): string {
+    const reason = result.error instanceof Error ? result.error.message : String(result.error);
+    const where = result.failedAt === -1 ? 'in the initial state' : `at step ${(result.failedAt ?? 0) + 1}`;
+    return `${label} failed ${where} (${result.failure}) in state ${result.state}: ${reason}\nSteps: ${formatSteps(result.steps)}`;
+}
+
+/**
+ * Drops the paths that are the start of another path, keeping the original order
+ */
+function withoutPrefixes<StateEnum>(paths: StateEnum[][]): StateEnum[][] {
+    const isPrefix = (path: StateEnum[], other: StateEnum[]) => path.length <= other.length && path.every((state, i) => other[i] === state);
+    return paths.filter((path, i) => !paths.some((other, j) => j !== i && isPrefix(path, other) && (path.length < other.length || j < i)));
+}
+
+function toTestPath<StateEnum>(states: StateEnum[]): TestPath<StateEnum> {
+    return {
+        name: states.join(' -> '),
+        steps: states.slice(1).map(to => ({ type: 'go', to })),
+    };
+}
+
+function edgeKey<StateEnum>(from: StateEnum, to: StateEnum): string {
+    return `${from}\u0000${to}`;
+}
+
+/**
+ * Small seeded PRNG, returns floats in [0, 1)
+ */
+function mulberry32(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
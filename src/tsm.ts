@@ -1,30 +1,203 @@
-type StateCallbackSet<T> = Map<T, Array<(from: T, to: T, event?: any) => any>>;
-type ExpireCallback<T> = (expiredState: T) => void;
+import { realTimeScheduler, type Scheduler } from './clock';
+import { parseSCXML, toDot, toMermaid, toSCXML } from './formats';
+import {
+    analyzeMachine,
+    findShortestPath,
+    validateMachine,
+    type AnalyzeOptions,
+    type MachineAnalysis,
+    type ValidateOptions,
+} from './analysis';
+import {
+    CallbackError,
+    InvalidTransitionError,
+    TimeoutConfigError,
+    type CallbackPhase,
+    type ErrorHandler,
+    type TSMError,
+} from './errors';
+import type { TransitionAttempt, TransitionResult, TSMPlugin } from './plugins';
 
-interface StateTimeoutConfig<StateEnum> {
+type StateCallback<T, C = any> = (from: T, to: T, event: any, context: C) => any;
+type StateCallbackSet<T, C = any> = Map<T, Array<StateCallback<T, C>>>;
+type ExpireCallback<T, C = any> = (expiredState: T, context: C) => void;
+
+/**
+ * Hook called before every transition, returning `false` cancels it.
+ * A Promise is only awaited by `goAsync` / `sendAsync`, `go` / `send` report it as a failing hook
+ */
+export type BeforeTransitionHook<T, C = any> = (from: T, to: T, event: any, context: C) => boolean | void | Promise<boolean | void>;
+
+/**
+ * Predicate attached to a single `from -> to` edge, the edge can only be taken while it returns true
+ */
+export type TransitionGuard<T, C = any> = (from: T, to: T, context: C) => boolean;
+
+/**
+ * Reducer attached to a `from -> to` edge, its result replaces the context when the edge is taken
+ */
+export type ContextAssigner<T, C = any> = (context: C, from: T, to: T, event?: any) => C;
+
+/** Id of the timer set by setStateTimeout() without an `id` */
+const DEFAULT_TIMER_ID = 'timeout';
+
+interface StateTimeoutConfig<StateEnum, Context = any> {
     timeoutMs: number;
     expireTo?: StateEnum;
-    onExpire?: ExpireCallback<StateEnum>;
+    onExpire?: ExpireCallback<StateEnum, Context>;
+    repeat: boolean;
+}
+
+interface ActiveTimer<StateEnum, Context = any> {
+    config: StateTimeoutConfig<StateEnum, Context>;
+    /** Scheduler handle, undefined while the timers are paused */
+    handle?: unknown;
+    /** When the timer fires, in timer time (frozen while paused) */
+    deadline: number;
 }
 
 /**
  * Options for setting a state timeout
  */
-export interface StateTimeoutOptions<StateEnum> {
-    /** Timeout duration in milliseconds */
+export interface StateTimeoutOptions<StateEnum, Context = any> {
+    /** Timeout duration in milliseconds, the interval for repeating timers */
     timeoutMs: number;
     /** State to transition to when expired (optional) */
     expireTo?: StateEnum;
     /** Callback function called when state expires (optional, takes precedence over expireTo) */
-    onExpire?: ExpireCallback<StateEnum>;
+    onExpire?: ExpireCallback<StateEnum, Context>;
+    /** Name of the timer, a state can have several timers with different ids (default: 'timeout') */
+    id?: string;
+    /** Fire onExpire every `timeoutMs` for as long as the state is active instead of once (default: false) */
+    repeat?: boolean;
+}
+
+/**
+ * A running (or paused) state timer, as reported by getActiveTimers()
+ */
+export interface ActiveTimerInfo<StateEnum> {
+    state: StateEnum;
+    /** Timer id, 'timeout' for the timer set without one */
+    id: string;
+    /** Milliseconds left until it fires */
+    remainingMs: number;
+    expireTo?: StateEnum;
+    repeat: boolean;
+}
+
+/**
+ * Options for the TSM constructor
+ */
+export interface TSMOptions<Context = any> {
+    /** Time source for state timeouts (default: `Date.now` and the global `setTimeout`) */
+    scheduler?: Scheduler;
+    /** Maximum number of transitions kept in the history log and the undo stack (default: 100, 0 disables) */
+    historyLimit?: number;
+    /** Initial extended state, restored by reset() */
+    context?: Context;
+}
+
+/**
+ * How a compound state remembers its active children when it is exited.
+ * `shallow` re-enters the last active child, `deep` the last active descendants, `none` always the initial child
+ */
+export type HistoryMode = 'none' | 'shallow' | 'deep';
+
+/**
+ * Options for addSubstates()
+ */
+export interface SubstateOptions<StateEnum> {
+    /** Child entered when the parent itself is targeted (default: the first child) */
+    initial?: StateEnum;
+    /** History behaviour when the parent is re-entered (default: 'none') */
+    history?: HistoryMode;
+}
+
+interface CompoundState<StateEnum> {
+    children: StateEnum[];
+    initial: StateEnum;
+    history: HistoryMode;
+    parallel: boolean;
+}
+
+interface TransitionPlan<StateEnum> {
+    /** Active state that owns the edge being taken */
+    source: StateEnum;
+    /** States to exit, innermost first */
+    exits: StateEnum[];
+    /** States to enter, outermost first */
+    entries: StateEnum[];
+    /** Atomic state that becomes `current` */
+    leaf: StateEnum;
+    /** History memory once the exits have been recorded */
+    history: Map<StateEnum, StateEnum[]>;
+}
+
+/**
+ * What caused a transition
+ */
+export type TransitionCause = 'go' | 'send' | 'timeout' | 'reset' | 'undo' | 'redo' | 'error';
+
+/**
+ * Immutable view of the machine handed to subscribers and returned by getSnapshot().
+ * The same object is returned until the next change, as required by `useSyncExternalStore`
+ */
+export interface TSMState<StateEnum, Context = any> {
+    readonly current: StateEnum;
+    readonly previous: StateEnum;
+    /** Every active state, outermost first */
+    readonly configuration: readonly StateEnum[];
+    readonly context: Context;
+}
+
+/**
+ * Listener registered with subscribe()
+ */
+export type StateListener<StateEnum, Context = any> = (state: TSMState<StateEnum, Context>) => void;
+
+/**
+ * Observer accepted by the `Symbol.observable` interop, as used by RxJS `from()`
+ */
+export interface TSMObserver<T> {
+    next?: (value: T) => void;
+    error?: (error: unknown) => void;
+    complete?: () => void;
+}
+
+/**
+ * Minimal ES Observable returned by the `Symbol.observable` interop
+ */
+export interface TSMObservable<T> {
+    subscribe(observer: TSMObserver<T> | ((value: T) => void)): { unsubscribe(): void };
+}
+
+/**
+ * One entry of the transition history log
+ */
+export interface TransitionRecord<StateEnum, EventEnum = string> {
+    from: StateEnum;
+    to: StateEnum;
+    /** Scheduler time of the transition (ms since epoch by default) */
+    timestamp: number;
+    cause: TransitionCause;
+    /** Event that was sent, for `send` transitions */
+    event?: EventEnum;
 }
 
 /**
  * Options for adding transitions
  */
-export interface TransitionOptions {
+export interface TransitionOptions<StateEnum = any, Context = any> {
     /** Whether to create bidirectional transitions (default: false) */
     loop?: boolean;
+    /** Guard applied to every created edge, in both directions when looping (optional) */
+    guard?: TransitionGuard<StateEnum, Context>;
+    /** Context reducer applied when any created edge is taken (optional) */
+    assign?: ContextAssigner<StateEnum, Context>;
+    /** Cost of the edge for findPath() / goTo(), must be positive (default: 1) */
+    weight?: number;
+    /** The edge can only be taken for this many milliseconds after entering its `from` state (optional) */
+    expiresAfterMs?: number;
 }
 
 /**
@@ -35,20 +208,209 @@ export interface GoOptions {
     throwOnInvalid?: boolean;
 }
 
-interface TemporalStateCreator<State> {
+/**
+ * Options for the goAsync() and sendAsync() methods
+ */
+export interface AsyncGoOptions<StateEnum> extends GoOptions {
+    /** State to move to when a callback rejects (default: roll back to the state that was left) */
+    errorState?: StateEnum;
+}
+
+/**
+ * One state of a serialized state machine, as produced by `serializeStateMachine()`
+ */
+export interface SerializedState<StateEnum, EventEnum = string> {
+    state: StateEnum;
+    toStates: StateEnum[];
+    fromStates: StateEnum[];
+    guardedToStates: StateEnum[];
+    events: Array<{ event: EventEnum; to: StateEnum }>;
+    /** Edges with a weight other than the default of 1 */
+    weights?: Array<{ to: StateEnum; weight: number }>;
+    /** Edges carrying a context reducer */
+    assignedToStates?: StateEnum[];
+    /** Edges that are only valid for a while after entering this state */
+    expiries?: Array<{ to: StateEnum; expiresAfterMs: number }>;
+    timeout?: {
+        timeoutMs: number;
+        expireTo?: StateEnum;
+        hasCallback: boolean;
+        isActive: boolean;
+        /** Milliseconds left on the timer when serialized (only while active) */
+        remainingMs?: number;
+        repeat?: boolean;
+    };
+    /** Timers set with an `id`, in addition to `timeout` */
+    timers?: Array<{
+        id: string;
+        timeoutMs: number;
+        expireTo?: StateEnum;
+        hasCallback: boolean;
+        isActive: boolean;
+        remainingMs?: number;
+        repeat?: boolean;
+    }>;
+    callbackCount: number;
+    exitCallbackCount: number;
+    /** Compound state this state is a child of */
+    parent?: StateEnum;
+    /** Children of a compound state (regions for a parallel state) */
+    compound?: {
+        children: StateEnum[];
+        initial: StateEnum;
+        history: HistoryMode;
+        parallel: boolean;
+    };
+}
+
+/**
+ * JSON-serializable representation of a state machine, as produced by `serializeStateMachine()`
+ */
+export interface SerializedStateMachine<StateEnum, EventEnum = string, Context = any> {
+    current: StateEnum;
+    previous: StateEnum;
+    initial: StateEnum;
+    /** Every active state, outermost first (just `current` for flat machines) */
+    configuration: StateEnum[];
+    /** Extended state, only present when the machine has one */
+    context?: Context;
+    states: Array<SerializedState<StateEnum, EventEnum>>;
+    summary: {
+        totalStates: number;
+        totalTransitions: number;
+        guardedTransitions: number;
+        statesWithTimeouts: number;
+        activeTimers: number;
+    };
+}
+
+/**
+ * Declarative definition of one state for `TSM.fromJSON()`.
+ * Functions are referenced by name and looked up in the MachineRegistry
+ */
+export interface MachineStateConfig<StateEnum, EventEnum = string> {
+    state: StateEnum;
+    /** States this state can transition to */
+    toStates?: StateEnum[];
+    /** Named events leaving this state */
+    events?: Array<{ event: EventEnum; to: StateEnum }>;
+    /** Guards by registry name, for edges listed in `toStates` or `events` */
+    guards?: Array<{ to: StateEnum; guard: string }>;
+    /** Guarded edges without a name (serialized output), looked up in the registry as `"From->To"` */
+    guardedToStates?: StateEnum[];
+    /** Path planning weights for edges listed in `toStates` or `events` */
+    weights?: Array<{ to: StateEnum; weight: number }>;
+    /** Context reducers by registry name, for edges listed in `toStates` or `events` */
+    assigns?: Array<{ to: StateEnum; assign: string }>;
+    /** Edges with an unnamed reducer (serialized output), looked up in the registry as `"From->To"` */
+    assignedToStates?: StateEnum[];
+    /** Validity windows for edges listed in `toStates` or `events` */
+    expiries?: Array<{ to: StateEnum; expiresAfterMs: number }>;
+    timeout?: {
+        timeoutMs: number;
+        expireTo?: StateEnum;
+        /** Registry name of the onExpire callback */
+        onExpire?: string;
+        /** Set by serialized output, an unnamed onExpire is looked up in the registry by the state name */
+        hasCallback?: boolean;
+        /** Time left on the timer if this is the current state (default: the full timeoutMs) */
+        remainingMs?: number;
+        repeat?: boolean;
+    };
+    /** Additional timers by id, an unnamed onExpire is looked up in the registry as `"State.id"` */
+    timers?: Array<{
+        id: string;
+        timeoutMs: number;
+        expireTo?: StateEnum;
+        onExpire?: string;
+        hasCallback?: boolean;
+        remainingMs?: number;
+        repeat?: boolean;
+    }>;
+    /** Registry names of the entry callbacks */
+    callbacks?: string[];
+    /** Registry names of the exit callbacks */
+    exitCallbacks?: string[];
+    /** Makes this a compound (or parallel) state with the given children */
+    compound?: {
+        children: StateEnum[];
+        initial?: StateEnum;
+        history?: HistoryMode;
+        parallel?: boolean;
+    };
+}
+
+/**
+ * Declarative state machine definition for `TSM.fromJSON()`, `serializeStateMachine()` output is also accepted
+ */
+export interface MachineConfig<StateEnum, EventEnum = string, Context = any> {
+    initial: StateEnum;
+    /** State to resume in (default: initial) */
+    current?: StateEnum;
+    /** Previous state to restore (default: initial) */
+    previous?: StateEnum;
+    /** Active states to restore when using parallel regions (default: derived from current) */
+    configuration?: StateEnum[];
+    /** Context to restore (default: the `context` constructor option) */
+    context?: Context;
+    states: Array<MachineStateConfig<StateEnum, EventEnum>>;
+}
+
+/**
+ * Runtime position of a state machine, as produced by `snapshot()` and consumed by `restore()`
+ */
+export interface TSMSnapshot<StateEnum, Context = any> {
+    current: StateEnum;
+    previous: StateEnum;
+    /** Extended state, only present when the machine has one */
+    context?: Context;
+    /** Every active state, outermost first */
+    configuration?: StateEnum[];
+    /** Active state timers with their absolute deadline (scheduler time, ms since epoch by default), `id` is left out for the default timer */
+    timers: Array<{ state: StateEnum; id?: string; deadline: number }>;
+    /** When each active state was entered, for the edges that expire (scheduler time) */
+    enteredAt?: Array<{ state: StateEnum; at: number }>;
+    /** Set when the timers were paused, they stay paused with the time they had left at `takenAt` */
+    timersPaused?: boolean;
+    /** When the snapshot was taken (scheduler time) */
+    takenAt: number;
+}
+
+/**
+ * Functions that a MachineConfig can reference by name
+ */
+export interface MachineRegistry<StateEnum, Context = any> {
+    callbacks?: Record<string, StateCallback<StateEnum, Context>>;
+    guards?: Record<string, TransitionGuard<StateEnum, Context>>;
+    onExpire?: Record<string, ExpireCallback<StateEnum, Context>>;
+    assigns?: Record<string, ContextAssigner<StateEnum, Context>>;
+}
+
+interface TemporalStateCreator<State, Event = string> {
     go(state: State, options?: GoOptions): State;
     canTransition(state: State): boolean;
     getValidTransitions(): State[];
+    findPath(target: State): State[] | undefined;
+    goTo(target: State, options?: GoOptions): State;
+
+    send(event: Event, payload?: any, options?: GoOptions): State;
+    goAsync(state: State, options?: AsyncGoOptions<State>): Promise<State>;
+    sendAsync(event: Event, payload?: any, options?: AsyncGoOptions<State>): Promise<State>;
+    canSend(event: Event): boolean;
+    getValidEvents(): Event[];
 
     reset(): void;
 
     addPath(...states: Array<State>): void;
 
-    addTransitions(from: State, ...args: Array<State | TransitionOptions>): void;
-    addTransition(from: State, to: State, loop?: boolean): void;
+    addTransitions(from: State, ...args: Array<State | TransitionOptions<State>>): void;
+    addTransition(from: State, to: State, loop?: boolean | TransitionOptions<State>): void;
+    addEvent(event: Event, from: State | State[], to: State, options?: Omit<TransitionOptions<State>, 'loop'>): void;
+    removeTransition(from: State, to: State): boolean;
+    removeState(state: State): boolean;
 }
 
-class Transitions<StateEnum> {
+class Transitions<StateEnum, EventEnum = any, Context = any> {
     constructor(state: StateEnum) {
         this.state = state;
     }
@@ -56,26 +418,260 @@ class Transitions<StateEnum> {
     public state: StateEnum;
     public fromStates: StateEnum[] = [];
     public toStates: StateEnum[] = [];
+    /** Guards keyed by the `to` state of the edge */
+    public guards: Map<StateEnum, TransitionGuard<StateEnum, Context>> = new Map();
+    /** Named events leaving this state, keyed by event with the `to` state as value */
+    public events: Map<EventEnum, StateEnum> = new Map();
+    /** Path planning weights keyed by the `to` state of the edge, missing edges weigh 1 */
+    public weights: Map<StateEnum, number> = new Map();
+    /** Context reducers keyed by the `to` state of the edge */
+    public assigns: Map<StateEnum, ContextAssigner<StateEnum, Context>> = new Map();
+    /** Validity windows in ms keyed by the `to` state of the edge, counted from entering this state */
+    public expiries: Map<StateEnum, number> = new Map();
+}
+
+/** `Symbol.observable` when defined by a polyfill, otherwise libraries fall back to `'@@observable'` */
+const symbolObservable: symbol | undefined = (Symbol as unknown as { observable?: symbol }).observable;
+
+function isTransitionOptions(arg: unknown): arg is TransitionOptions {
+    return typeof arg === 'object' && arg !== null && !Array.isArray(arg) && ('loop' in arg || 'guard' in arg || 'weight' in arg || 'assign' in arg || 'expiresAfterMs' in arg);
 }
 
 /**
  * Template class for creating Finite State Machines that will eventually be temporal
  *
  * Eventually relationships can expire over time and create a more dynamic appeal (timeouts)
+ *
+ * `EventEnum` (optional) types the named events used with `addEvent` / `send`,
+ * `Context` (optional) types the extended state carried along with the current state
  */
-export class TSM<StateEnum> implements TemporalStateCreator<StateEnum> {
+export class TSM<StateEnum, EventEnum = string, Context = undefined> implements TemporalStateCreator<StateEnum, EventEnum> {
     private _initial: StateEnum;
     private _current: StateEnum;
     private _previous: StateEnum;
-    private _cbMap: StateCallbackSet<StateEnum> = new Map();
-    private _transitions: Map<StateEnum, Transitions<StateEnum>> = new Map();
-    private _timeoutConfigs: Map<StateEnum, StateTimeoutConfig<StateEnum>> = new Map();
-    private _activeTimers: Map<StateEnum, ReturnType<typeof setTimeout>> = new Map();
+    private _cbMap: StateCallbackSet<StateEnum, Context> = new Map();
+    private _exitCbMap: StateCallbackSet<StateEnum, Context> = new Map();
+    private _edgeCbMap: Map<StateEnum, StateCallbackSet<StateEnum, Context>> = new Map();
+    private _beforeHooks: Array<BeforeTransitionHook<StateEnum, Context>> = [];
+    private _transitioning = false;
+    private _deferred: Array<() => void> = [];
+    private _asyncQueue: Promise<unknown> = Promise.resolve();
+    private _transitions: Map<StateEnum, Transitions<StateEnum, EventEnum, Context>> = new Map();
+    private _timeoutConfigs: Map<StateEnum, Map<string, StateTimeoutConfig<StateEnum, Context>>> = new Map();
+    private _activeTimers: Map<StateEnum, Map<string, ActiveTimer<StateEnum, Context>>> = new Map();
+    private _pausedAt: number | undefined;
+    private _enteredAt: Map<StateEnum, number>;
+    private _scheduler: Scheduler;
+    private _historyLimit: number;
+    private _history: Array<TransitionRecord<StateEnum, EventEnum>> = [];
+    private _undoStack: Array<TransitionRecord<StateEnum, EventEnum>> = [];
+    private _redoStack: Array<TransitionRecord<StateEnum, EventEnum>> = [];
+    private _active: Set<StateEnum>;
+    private _parents: Map<StateEnum, StateEnum> = new Map();
+    private _compounds: Map<StateEnum, CompoundState<StateEnum>> = new Map();
+    private _historyMemory: Map<StateEnum, StateEnum[]> = new Map();
+    private _initialContext: Context;
+    private _context: Context;
+    private _listeners: Array<StateListener<StateEnum, Context>> = [];
+    private _state: TSMState<StateEnum, Context> | undefined;
+    private _pendingNotify = false;
+    private _errorHandlers: Array<ErrorHandler<StateEnum, EventEnum>> = [];
+    private _lastError: TSMError<StateEnum, EventEnum> | undefined;
+    /** Set once the graph is shared by a MachineDefinition */
+    private _sealed = false;
+    private _plugins: Array<TSMPlugin<StateEnum, EventEnum, Context>> = [];
 
-    constructor(initial: StateEnum) {
+    /**
+     * @param initial Initial State
+     * @param options Optional configuration (scheduler: time source for state timeouts, historyLimit: size of the history log,
+     * context: initial extended state)
+     */
+    constructor(initial: StateEnum, options?: TSMOptions<Context>) {
         this._initial = initial;
         this._current = initial;
         this._previous = initial; // just so I don't need to throw alot of errors
+        this._scheduler = options?.scheduler ?? realTimeScheduler;
+        this._historyLimit = options?.historyLimit ?? 100;
+        this._active = new Set([initial]);
+        this._enteredAt = new Map([[initial, this._scheduler.now()]]);
+        this._initialContext = options?.context as Context;
+        this._context = this._initialContext;
+    }
+
+    /**
+     * Creates a machine sharing the transition graph, hierarchy and timeout configuration of `template`
+     * instead of copying them. State, context, timers, history and callbacks are its own.
+     * The graph of both machines is frozen afterwards, changing it throws.
+     * Usually called through `MachineDefinition.createInstance()`
+     * @param template Fully configured machine
+     * @param initial State to start in (default: the initial state of the template)
+     * @param options Constructor options (default: the scheduler, historyLimit and context of the template)
+     * @returns The new machine, in `initial` with its timers started
+     */
+    static fromTemplate<StateEnum, EventEnum = string, Context = undefined>(
+        template: TSM<StateEnum, EventEnum, Context>,
+        initial: StateEnum = template._initial,
+        options?: TSMOptions<Context>,
+    ): TSM<StateEnum, EventEnum, Context> {
+        const machine = new TSM<StateEnum, EventEnum, Context>(initial, {
+            scheduler: options?.scheduler ?? template._scheduler,
+            historyLimit: options?.historyLimit ?? template._historyLimit,
+            context: options && 'context' in options ? options.context : template._initialContext,
+        });
+
+        template.seal();
+        machine._sealed = true;
+        machine._transitions = template._transitions;
+        machine._parents = template._parents;
+        machine._compounds = template._compounds;
+        machine._timeoutConfigs = template._timeoutConfigs;
+
+        machine._syncConfiguration();
+        machine._active.forEach(state => machine._startStateTimeout(state));
+        return machine;
+    }
+
+    /**
+     * Freezes the graph: transitions, hierarchy and timeout configuration can no longer be changed.
+     * Called on the template of a MachineDefinition, whose instances share the graph
+     * @returns This class for method chaining
+     */
+    seal(): TSM<StateEnum, EventEnum, Context> {
+        this._sealed = true;
+        return this;
+    }
+
+    /**
+     * Whether the graph is frozen by seal(), usually because it is shared with other machines
+     */
+    get sealed(): boolean {
+        return this._sealed;
+    }
+
+    /**
+     * Builds a state machine from a declarative config or from `serializeStateMachine()` output.
+     * The machine resumes in `current` without running any callbacks, and the current state's timeout
+     * restarts with `remainingMs` when provided.
+     * @param config Machine definition
+     * @param registry Functions referenced by name in the config
+     * @param options Constructor options for the new machine (optional)
+     * @returns The rebuilt state machine
+     * @throws {Error} If the config is malformed or references a name missing from the registry
+     *
+     * @example
+     * const machine = TSM.fromJSON<UploadState>(JSON.parse(json), {
+     *   callbacks: { startUpload },
+     *   guards: { noBytesLeft: () => bytesRemaining === 0 },
+     * });
+     */
+    static fromJSON<StateEnum, EventEnum = string, Context = undefined>(
+        config: MachineConfig<StateEnum, EventEnum, Context>,
+        registry: MachineRegistry<StateEnum, Context> = {},
+        options?: TSMOptions<Context>,
+    ): TSM<StateEnum, EventEnum, Context> {
+        if (!config || config.initial === undefined || !Array.isArray(config.states)) {
+            throw new Error("Invalid machine config: expected an initial state and a states array");
+        }
+
+        const lookup = <K extends keyof MachineRegistry<StateEnum, Context>>(kind: K, name: string, state: StateEnum) => {
+            const fn = registry[kind]?.[name];
+            if (!fn) {
+                throw new Error(`Registry has no ${kind} named "${name}" (referenced by state ${state})`);
+            }
+            return fn as NonNullable<MachineRegistry<StateEnum, Context>[K]>[string];
+        };
+
+        const machine = new TSM<StateEnum, EventEnum, Context>(config.initial, options);
+
+        // Hierarchy, then graph so guards can be attached to any edge afterwards
+        for (const { state, compound } of config.states) {
+            if (!compound) continue;
+            if (compound.parallel) {
+                machine.addParallel(state, compound.children);
+            } else {
+                machine.addSubstates(state, compound.children, { initial: compound.initial, history: compound.history });
+            }
+        }
+
+        for (const stateConfig of config.states) {
+            for (const to of stateConfig.toStates ?? []) machine.addTransition(stateConfig.state, to);
+            for (const { event, to } of stateConfig.events ?? []) machine.addEvent(event, stateConfig.state, to);
+        }
+
+        for (const stateConfig of config.states) {
+            const { state } = stateConfig;
+
+            for (const { to, guard } of stateConfig.guards ?? []) {
+                machine.setTransitionGuard(state, to, lookup('guards', guard, state));
+            }
+            for (const to of stateConfig.guardedToStates ?? []) {
+                if (stateConfig.guards?.some(g => g.to === to)) continue;
+                machine.setTransitionGuard(state, to, lookup('guards', `${state}->${to}`, state));
+            }
+            for (const { to, weight } of stateConfig.weights ?? []) {
+                machine.addFromState(state, to, { weight });
+            }
+            for (const { to, expiresAfterMs } of stateConfig.expiries ?? []) {
+                machine.addFromState(state, to, { expiresAfterMs });
+            }
+            for (const { to, assign } of stateConfig.assigns ?? []) {
+                machine.addFromState(state, to, { assign: lookup('assigns', assign, state) });
+            }
+            for (const to of stateConfig.assignedToStates ?? []) {
+                if (stateConfig.assigns?.some(a => a.to === to)) continue;
+                machine.addFromState(state, to, { assign: lookup('assigns', `${state}->${to}`, state) });
+            }
+
+            for (const name of stateConfig.callbacks ?? []) machine.on(state, lookup('callbacks', name, state));
+            for (const name of stateConfig.exitCallbacks ?? []) machine.onExit(state, lookup('callbacks', name, state));
+
+            const timers = [
+                ...(stateConfig.timeout ? [{ ...stateConfig.timeout, id: DEFAULT_TIMER_ID }] : []),
+                ...(stateConfig.timers ?? []),
+            ];
+            for (const timer of timers) {
+                const unnamed = timer.id === DEFAULT_TIMER_ID ? String(state) : `${state}.${timer.id}`;
+                const onExpireName = timer.onExpire ?? (timer.hasCallback ? unnamed : undefined);
+                machine.setStateTimeout(state, {
+                    id: timer.id,
+                    timeoutMs: timer.timeoutMs,
+                    expireTo: timer.expireTo,
+                    onExpire: onExpireName !== undefined ? lookup('onExpire', onExpireName, state) : undefined,
+                    repeat: timer.repeat,
+                });
+            }
+        }
+
+        // Restore the position without running callbacks
+        machine._clearAllTimeouts();
+        machine._current = config.current ?? config.initial;
+        machine._previous = config.previous ?? config.initial;
+        machine._active = new Set(config.configuration ?? [machine._current]);
+        machine._enteredAt = new Map();
+        machine._syncConfiguration();
+        if (config.context !== undefined) machine._context = config.context;
+
+        for (const state of machine._active) {
+            const stateConfig = config.states.find(s => s.state === state);
+            for (const [id, timerConfig] of machine._timeoutConfigs.get(state) ?? []) {
+                const remainingMs = id === DEFAULT_TIMER_ID
+                    ? stateConfig?.timeout?.remainingMs
+                    : stateConfig?.timers?.find(timer => timer.id === id)?.remainingMs;
+                machine._startTimer(state, id, timerConfig, remainingMs);
+            }
+        }
+
+        return machine;
+    }
+
+    /**
+     * @throws {Error} If the graph is sealed
+     * @private
+     */
+    private _assertMutable(): void {
+        if (this._sealed) {
+            throw new Error("The graph of this machine is sealed (shared by a MachineDefinition) and cannot be changed");
+        }
     }
 
     /**
@@ -93,218 +689,2014 @@ export class TSM<StateEnum> implements TemporalStateCreator<StateEnum> {
     }
 
     /**
-     * This function allows you to specify a path that will link itself together in the parameter order.
-     * For instance `TSM.addPath(Running, Paused, Transform, Paused, Running)` but it doesn't need to exist
-     * @param states Parameters that list a path, clicked, paused, open
+     * Gets the initial State, the one reset() returns to
      */
-    addPath(...states: StateEnum[]): void {
-        let previous: StateEnum | undefined;
-        for (const state of states) {
-            if (previous !== undefined) this.addFromState(previous, state);
-            previous = state;
-        }
+    public get initial() {
+        return this._initial;
     }
 
     /**
-     * Add multiple endpoints to a single from state
-     * DOES NOT CREATE A LOOP DIRECTLY, you must specify the loop option to construct bidirectional transitions
-     * @param from From State
-     * @param args List of States the From State can go to, optionally followed by TransitionOptions
-     * 
-     * @example
-     * // One-way transitions: A → B, A → C, A → D
-     * stateMachine.addTransitions(StateA, StateB, StateC, StateD);
-     * 
+     * Gets every active state, outermost first.
+     * For flat machines this is just `[current]`, with compound states it includes the ancestors of `current`
+     * and with parallel regions the active states of every region
+     */
+    public get configuration(): StateEnum[] {
+        return [...this._active];
+    }
+
+    /**
+     * Check if a state is active, either as `current` or as one of its ancestors / parallel regions
+     * @param state State to check
+     */
+    matches(state: StateEnum): boolean {
+        return this._active.has(state);
+    }
+
+    /**
+     * Gets the extended state carried along with the current state
+     */
+    public get context(): Context {
+        return this._context;
+    }
+
+    /**
+     * Replaces the extended state outside of a transition, for example from a callback or onExpire handler.
+     * Prefer `assign` on transitions so updates are tied to the edges that cause them
+     * @param context New context, or a reducer receiving the current one
+     * @returns This class for method chaining
+     *
      * @example
-     * // Bidirectional transitions: A ↔ B, A ↔ C
-     * stateMachine.addTransitions(StateA, StateB, StateC, { loop: true });
+     * machine.setContext(ctx => ({ ...ctx, lastSeen: Date.now() }));
      */
-    addTransitions(from: StateEnum, ...args: Array<StateEnum | TransitionOptions>): void {
-        // Extract options (last arg if it's an object, otherwise undefined)
-        const lastArg = args[args.length - 1];
-        const options: TransitionOptions = (typeof lastArg === 'object' && lastArg !== null && !Array.isArray(lastArg) && 'loop' in lastArg)
-            ? lastArg as TransitionOptions
-            : { loop: false };
-        const loop = options.loop ?? false;
-        
-        // Extract states (all args except the last if it's options)
-        const toStates = (typeof lastArg === 'object' && lastArg !== null && !Array.isArray(lastArg) && 'loop' in lastArg)
-            ? args.slice(0, -1) as StateEnum[]
-            : args as StateEnum[];
+    setContext(context: Context | ((context: Context) => Context)): TSM<StateEnum, EventEnum, Context> {
+        this._context = typeof context === 'function'
+            ? (context as (context: Context) => Context)(this._context)
+            : context;
 
-        for (const _to of toStates) {
-            this.addFromState(from, _to);
-            if (loop) this.addFromState(_to, from);
-        }
+        this._changed();
+        if (!this._transitioning) this._notify();
+        return this;
     }
 
     /**
-     * Simple way to construct a single relationship
+     * Registers a listener called with the machine state on every transition, including timeouts,
+     * reset(), restore() and context updates. The listener is also called once immediately with
+     * the current state, which makes the machine a valid Svelte store
+     * @param listener Called with the same object getSnapshot() returns
+     * @returns Function removing the listener
      *
-     * This represents  `a -> b` but not `b -> a` , that will require you to specify the loop flag.
-     * @param from From State
-     * @param to To State
-     * @param loop (default: `False`) - ` a -> b ` and ` b -> a `
+     * @example
+     * // React
+     * const state = useSyncExternalStore(cb => machine.subscribe(cb), () => machine.getSnapshot());
+     *
+     * @example
+     * // Svelte
+     * $: status = $machine.current;
      */
-    addTransition(from: StateEnum, to: StateEnum, loop = false): void {
-        this.addFromState(from, to);
-        if (loop) this.addFromState(to, from);
+    subscribe(listener: StateListener<StateEnum, Context>): () => void {
+        this._listeners.push(listener);
+        listener(this.getSnapshot());
+
+        return () => {
+            this._listeners = this._listeners.filter(l => l !== listener);
+        };
     }
 
     /**
-     * Helper function to ensure the map properties are defined,
-     * Also will limit the amount of the from and to properties pushed to the transitions
-     * @param from State From
-     * @param to State To go to
+     * Gets an immutable view of the current state, context and configuration.
+     * The same object is returned until the machine changes
      */
-    private addFromState(from: StateEnum, to: StateEnum) {
-        if (!this._transitions.has(from)) {
-            this._transitions.set(from, new Transitions(from));
+    getSnapshot(): TSMState<StateEnum, Context> {
+        if (!this._state) {
+            this._state = Object.freeze({
+                current: this._current,
+                previous: this._previous,
+                configuration: Object.freeze([...this._active]),
+                context: this._context,
+            });
         }
+        return this._state;
+    }
 
-        const transitionsfrom = this._transitions.get(from);
-        if (!transitionsfrom?.toStates.includes(to)) transitionsfrom?.toStates.push(to);
+    /**
+     * ES Observable interop (`Symbol.observable`), so RxJS `from(machine)` and other libraries can consume the machine.
+     * Like subscribe(), the current state is emitted immediately
+     * @returns An observable of machine states
+     */
+    ['@@observable'](): TSMObservable<TSMState<StateEnum, Context>> {
+        const machine = this;
+        const observable: TSMObservable<TSMState<StateEnum, Context>> = {
+            subscribe(observer) {
+                const next = typeof observer === 'function' ? observer : (value: TSMState<StateEnum, Context>) => observer.next?.(value);
+                return { unsubscribe: machine.subscribe(next) };
+            },
+        };
+        Object.defineProperty(observable, '@@observable', { value: () => observable });
+        if (symbolObservable) Object.defineProperty(observable, symbolObservable, { value: () => observable });
+        return observable;
+    }
 
-        if (!this._transitions.has(to)) {
-            this._transitions.set(to, new Transitions(to));
-        }
+    /**
+     * Marks the cached snapshot as stale and schedules a notification
+     * @private
+     */
+    private _changed(): void {
+        this._state = undefined;
+        this._pendingNotify = true;
+    }
 
-        const transitionsto = this._transitions.get(to);
-        if (!transitionsto?.fromStates.includes(from)) transitionsto?.fromStates.push(from);
+    /**
+     * Calls the subscribers once per change, iterating over a copy so listeners can unsubscribe
+     * @private
+     */
+    private _notify(): void {
+        if (!this._pendingNotify) return;
+        this._pendingNotify = false;
+
+        const state = this.getSnapshot();
+        for (const listener of [...this._listeners]) {
+            listener(state);
+        }
     }
 
     /**
-     * Attempts to transition to the new state if possible
-     * @param state State to transition to
-     * @param options Optional configuration (throwOnInvalid: throw error on invalid transition)
-     * @returns New State that was transitioned (or current state if invalid and not throwing)
-     * @throws {Error} If throwOnInvalid is true and transition is invalid
-     * 
-     * @example
-     * // Silent failure (default)
-     * stateMachine.go(StateB);
-     * 
+     * Makes `parent` a compound state containing `children`.
+     * Entering the parent enters its initial child (or the remembered one with history), and transitions,
+     * events and timeouts defined on the parent apply while any of its descendants is active
+     * @param parent Compound state
+     * @param children Child states, can be called again to add more
+     * @param options Optional configuration (initial: child entered by default, history: 'none' | 'shallow' | 'deep')
+     * @returns This class for method chaining
+     * @throws {Error} If a child already has another parent or the hierarchy would contain a cycle
+     *
      * @example
-     * // Throw on invalid transition
-     * try {
-     *   stateMachine.go(StateB, { throwOnInvalid: true });
-     * } catch (error) {
-     *   console.error('Invalid transition:', error);
-     * }
+     * machine.addSubstates(State.Connected, [State.Idle, State.Streaming, State.Paused], { history: 'shallow' });
+     * machine.addTransition(State.Connected, State.Disconnected); // from Idle, Streaming and Paused
      */
-    go(state: StateEnum, options?: GoOptions): StateEnum {
-        if (!this.canTransition(state)) {
-            if (options?.throwOnInvalid) {
-                throw new Error(
-                    `Invalid state transition from ${this._current} to ${state}. ` +
-                    `Valid transitions from ${this._current}: ${this._getValidTransitions().join(', ')}`
-                );
-            }
-            return this.current;
+    addSubstates(parent: StateEnum, children: StateEnum[], options?: SubstateOptions<StateEnum>): TSM<StateEnum, EventEnum, Context> {
+        this._assertMutable();
+        const existing = this._compounds.get(parent);
+        if (existing?.parallel) {
+            throw new Error(`State ${parent} is a parallel state, use addParallel() to add regions`);
         }
 
-        // Clear any active timeout for the current state
-        this._clearStateTimeout(this._current);
+        this._addChildren(parent, children, false);
 
-        this._previous = this._current;
-        this._current = state;
-
-        // Trigger state entry callbacks
-        if (this._cbMap.get(state)) {
-            const cbs = this._cbMap.get(state);
-            if (cbs) {
-                for (const cb of cbs) {
-                    cb(this._previous, state);
+        const compound = this._compounds.get(parent);
+        if (compound) {
+            if (options?.initial !== undefined) {
+                if (!compound.children.includes(options.initial)) {
+                    throw new Error(`Initial state ${options.initial} is not a child of ${parent}`);
                 }
+                compound.initial = options.initial;
             }
+            if (options?.history !== undefined) compound.history = options.history;
         }
 
-        // Start timeout if configured for this state
-        this._startStateTimeout(state);
-        
-        return this._current;
+        this._syncConfiguration().forEach(state => this._startStateTimeout(state));
+        return this;
+    }
+
+    /**
+     * Makes `parent` a parallel state: all of its `regions` are active at the same time while it is active.
+     * Each region is usually a compound state (see addSubstates) with its own children and transitions
+     * @param parent Parallel state
+     * @param regions Orthogonal regions, can be called again to add more
+     * @returns This class for method chaining
+     * @throws {Error} If a region already has another parent or the hierarchy would contain a cycle
+     *
+     * @example
+     * machine.addParallel(State.Playing, [State.Audio, State.Network]);
+     * machine.addSubstates(State.Audio, [State.Muted, State.Unmuted]);
+     * machine.addSubstates(State.Network, [State.Online, State.Offline]);
+     */
+    addParallel(parent: StateEnum, regions: StateEnum[]): TSM<StateEnum, EventEnum, Context> {
+        this._assertMutable();
+        const existing = this._compounds.get(parent);
+        if (existing && !existing.parallel) {
+            throw new Error(`State ${parent} is a compound state, use addSubstates() to add children`);
+        }
+
+        this._addChildren(parent, regions, true);
+
+        this._syncConfiguration().forEach(state => this._startStateTimeout(state));
+        return this;
+    }
+
+    /**
+     * Gets the compound state a state is a child of
+     * @param state Child State
+     * @returns The parent, or undefined for top level states
+     */
+    getParent(state: StateEnum): StateEnum | undefined {
+        return this._parents.get(state);
+    }
+
+    /**
+     * Gets the children of a compound state, or the regions of a parallel state
+     * @param state Compound State
+     * @returns Copy of the children, empty for atomic states
+     */
+    getChildren(state: StateEnum): StateEnum[] {
+        return [...(this._compounds.get(state)?.children ?? [])];
+    }
+
+    /**
+     * Shared validation for addSubstates / addParallel
+     * @private
+     */
+    private _addChildren(parent: StateEnum, children: StateEnum[], parallel: boolean): void {
+        if (children.length === 0) {
+            throw new Error(`State ${parent} needs at least one child`);
+        }
+
+        for (const child of children) {
+            if (child === parent || this._ancestors(parent).includes(child)) {
+                throw new Error(`Cannot add ${child} as a child of ${parent}, the hierarchy would contain a cycle`);
+            }
+            const currentParent = this._parents.get(child);
+            if (currentParent !== undefined && currentParent !== parent) {
+                throw new Error(`State ${child} is already a child of ${currentParent}`);
+            }
+        }
+
+        if (!this._compounds.has(parent)) {
+            this._compounds.set(parent, { children: [], initial: children[0], history: 'none', parallel });
+        }
+
+        const compound = this._compounds.get(parent);
+        for (const child of children) {
+            if (!compound?.children.includes(child)) compound?.children.push(child);
+            this._parents.set(child, parent);
+        }
+    }
+
+    /**
+     * Proper ancestors of a state, innermost first
+     * @private
+     */
+    private _ancestors(state: StateEnum): StateEnum[] {
+        const ancestors: StateEnum[] = [];
+        for (let parent = this._parents.get(state); parent !== undefined; parent = this._parents.get(parent)) {
+            ancestors.push(parent);
+        }
+        return ancestors;
+    }
+
+    /**
+     * Check if `state` is a proper descendant of `ancestor`
+     * @private
+     */
+    private _isDescendant(state: StateEnum, ancestor: StateEnum): boolean {
+        return this._ancestors(state).includes(ancestor);
+    }
+
+    /**
+     * Active states, innermost first, so child transitions take priority over their parents'
+     * @private
+     */
+    private _activeInnermostFirst(): StateEnum[] {
+        return [...this._active].reverse().sort((a, b) => this._ancestors(b).length - this._ancestors(a).length);
+    }
+
+    /**
+     * Completes the active configuration: adds missing ancestors, initial children and parallel regions,
+     * and moves `current` down to an atomic state. Does not run callbacks
+     * @returns States that were added
+     * @private
+     */
+    private _syncConfiguration(): StateEnum[] {
+        const result: StateEnum[] = [];
+        const add = (state: StateEnum) => {
+            if (!result.includes(state)) result.push(state);
+        };
+
+        for (const state of this._active) {
+            this._ancestors(state).reverse().forEach(add);
+            add(state);
+        }
+
+        for (let i = 0; i < result.length; i++) {
+            const compound = this._compounds.get(result[i]);
+            if (!compound) continue;
+
+            if (compound.parallel) {
+                compound.children.forEach(add);
+            } else if (!compound.children.some(child => result.includes(child))) {
+                add(compound.initial);
+            }
+        }
+
+        const added = result.filter(state => !this._active.has(state));
+        this._active = new Set(result);
+
+        // Entry times drive the expiring edges, states without one were just entered
+        for (const state of [...this._enteredAt.keys()]) {
+            if (!this._active.has(state)) this._enteredAt.delete(state);
+        }
+        for (const state of result) {
+            if (!this._enteredAt.has(state)) this._enteredAt.set(state, this._timerNow());
+        }
+
+        if (this._compounds.has(this._current)) {
+            const current = this._current;
+            this._current = result.find(state => !this._compounds.has(state) && this._isDescendant(state, current)) ?? current;
+        }
+
+        return added;
+    }
+
+    /**
+     * Computes which states a transition exits and enters
+     * @param target State being transitioned to
+     * @param source Active state that owns the edge
+     * @private
+     */
+    private _plan(target: StateEnum, source: StateEnum): TransitionPlan<StateEnum> {
+        // Transition domain: innermost proper ancestor shared by source and target (undefined = top level)
+        const targetAncestors = this._ancestors(target);
+        const domain = this._ancestors(source).find(state => targetAncestors.includes(state));
+
+        const exits = [...this._active]
+            .filter(state => domain === undefined || this._isDescendant(state, domain))
+            .reverse();
+
+        // Record history for the compound states being exited before computing the entries
+        const history = new Map(this._historyMemory);
+        for (const state of exits) {
+            const compound = this._compounds.get(state);
+            if (!compound || compound.parallel || compound.history === 'none') continue;
+
+            history.set(state, [...this._active].filter(active => compound.history === 'deep'
+                ? this._isDescendant(active, state)
+                : this._parents.get(active) === state
+            ));
+        }
+
+        const chain: StateEnum[] = [];
+        for (let state: StateEnum | undefined = target; state !== undefined && state !== domain; state = this._parents.get(state)) {
+            chain.unshift(state);
+        }
+
+        const entries: StateEnum[] = [];
+        chain.forEach((state, i) => {
+            entries.push(state);
+            const compound = this._compounds.get(state);
+            if (compound?.parallel && i < chain.length - 1) {
+                for (const region of compound.children) {
+                    if (region !== chain[i + 1]) entries.push(...this._defaultEntry(region, history));
+                }
+            }
+        });
+        entries.push(...this._defaultDescendants(target, history));
+
+        const leaf = entries.find(state => !this._compounds.has(state)) ?? target;
+
+        return { source, exits, entries, leaf, history };
+    }
+
+    /**
+     * A state followed by the descendants entered by default
+     * @private
+     */
+    private _defaultEntry(state: StateEnum, history: Map<StateEnum, StateEnum[]>): StateEnum[] {
+        return [state, ...this._defaultDescendants(state, history)];
+    }
+
+    /**
+     * Descendants entered when entering a state: every region of a parallel state,
+     * or the remembered / initial child of a compound state
+     * @private
+     */
+    private _defaultDescendants(state: StateEnum, history: Map<StateEnum, StateEnum[]>): StateEnum[] {
+        const compound = this._compounds.get(state);
+        if (!compound) return [];
+
+        if (compound.parallel) {
+            return compound.children.flatMap(region => this._defaultEntry(region, history));
+        }
+
+        const remembered = history.get(state);
+        if (remembered && remembered.length > 0) {
+            return compound.history === 'deep' ? [...remembered] : this._defaultEntry(remembered[0], history);
+        }
+
+        return this._defaultEntry(compound.initial, history);
+    }
+
+    /**
+     * Commits a plan to the active configuration
+     * @private
+     */
+    private _applyPlan(plan: TransitionPlan<StateEnum>): void {
+        this._historyMemory = plan.history;
+        plan.exits.forEach(state => {
+            this._active.delete(state);
+            this._enteredAt.delete(state);
+        });
+        plan.entries.forEach(state => {
+            this._active.add(state);
+            this._enteredAt.set(state, this._timerNow());
+        });
+
+        this._previous = this._current;
+        this._current = plan.leaf;
+        this._changed();
+    }
+
+    /**
+     * This function allows you to specify a path that will link itself together in the parameter order.
+     * For instance `TSM.addPath(Running, Paused, Transform, Paused, Running)` but it doesn't need to exist
+     * @param states Parameters that list a path, clicked, paused, open
+     */
+    addPath(...states: StateEnum[]): void {
+        let previous: StateEnum | undefined;
+        for (const state of states) {
+            if (previous !== undefined) this.addFromState(previous, state);
+            previous = state;
+        }
+    }
+
+    /**
+     * Add multiple endpoints to a single from state
+     * DOES NOT CREATE A LOOP DIRECTLY, you must specify the loop option to construct bidirectional transitions
+     * @param from From State
+     * @param args List of States the From State can go to, optionally followed by TransitionOptions
+     * 
+     * @example
+     * // One-way transitions: A → B, A → C, A → D
+     * stateMachine.addTransitions(StateA, StateB, StateC, StateD);
+     * 
+     * @example
+     * // Bidirectional transitions: A ↔ B, A ↔ C
+     * stateMachine.addTransitions(StateA, StateB, StateC, { loop: true });
+     *
+     * @example
+     * // Guarded transitions: A → B, A → C only while the guard passes
+     * stateMachine.addTransitions(StateA, StateB, StateC, { guard: () => isReady });
+     *
+     * @example
+     * // Expiring transitions: A → B, A → C only during the first 30s in A
+     * stateMachine.addTransitions(StateA, StateB, StateC, { expiresAfterMs: 30000 });
+     */
+    addTransitions(from: StateEnum, ...args: Array<StateEnum | TransitionOptions<StateEnum, Context>>): void {
+        // Extract options (last arg if it's an object, otherwise undefined)
+        const lastArg = args[args.length - 1];
+        const options: TransitionOptions<StateEnum, Context> = isTransitionOptions(lastArg)
+            ? lastArg
+            : { loop: false };
+        const loop = options.loop ?? false;
+        
+        // Extract states (all args except the last if it's options)
+        const toStates = isTransitionOptions(lastArg)
+            ? args.slice(0, -1) as StateEnum[]
+            : args as StateEnum[];
+
+        for (const _to of toStates) {
+            this.addFromState(from, _to, options);
+            if (loop) this.addFromState(_to, from, options);
+        }
+    }
+
+    /**
+     * Simple way to construct a single relationship
+     *
+     * This represents  `a -> b` but not `b -> a` , that will require you to specify the loop flag.
+     * @param from From State
+     * @param to To State
+     * @param loop (default: `False`) - ` a -> b ` and ` b -> a `, or TransitionOptions to also attach a guard
+     *
+     * @example
+     * // Uploading -> Complete only once everything was sent
+     * stateMachine.addTransition(State.Uploading, State.Complete, {
+     *   guard: () => bytesRemaining === 0
+     * });
+     */
+    addTransition(from: StateEnum, to: StateEnum, loop: boolean | TransitionOptions<StateEnum, Context> = false): void {
+        const options: TransitionOptions<StateEnum, Context> = typeof loop === 'boolean' ? { loop } : loop;
+
+        this.addFromState(from, to, options);
+        if (options.loop) this.addFromState(to, from, options);
+    }
+
+    /**
+     * Attaches a guard to an existing `from -> to` edge, replacing any previous guard on that edge.
+     * The edge is only valid for `canTransition`, `go` and `getValidTransitions` while the guard returns true
+     * @param from From State
+     * @param to To State
+     * @param guard Predicate called with `(from, to)`
+     * @returns This class for method chaining
+     * @throws {Error} If the edge does not exist
+     */
+    setTransitionGuard(from: StateEnum, to: StateEnum, guard: TransitionGuard<StateEnum, Context>): TSM<StateEnum, EventEnum, Context> {
+        this._assertMutable();
+        const transitions = this._transitions.get(from);
+        if (!transitions || !transitions.toStates.includes(to)) {
+            throw new Error(`Cannot guard missing transition from ${from} to ${to}`);
+        }
+
+        transitions.guards.set(to, guard);
+        return this;
+    }
+
+    /**
+     * Removes the guard from a `from -> to` edge, the edge itself is kept
+     * @param from From State
+     * @param to To State
+     * @returns This class for method chaining
+     */
+    clearTransitionGuard(from: StateEnum, to: StateEnum): TSM<StateEnum, EventEnum, Context> {
+        this._assertMutable();
+        this._transitions.get(from)?.guards.delete(to);
+        return this;
+    }
+
+    /**
+     * Removes the `from -> to` edge together with its guard, weight, expiry, context reducer, events and onTransition callbacks.
+     * Timeouts of `from` that expire to `to` without an onExpire callback are removed as well, they could only fail
+     * @param from From State
+     * @param to To State
+     * @returns false if the edge did not exist
+     * @throws {Error} If the graph is sealed
+     *
+     * @example
+     * if (!flags.betaCheckout) stateMachine.removeTransition(State.Cart, State.ExpressCheckout);
+     */
+    removeTransition(from: StateEnum, to: StateEnum): boolean {
+        this._assertMutable();
+        const transitions = this._transitions.get(from);
+        if (!transitions?.toStates.includes(to)) return false;
+
+        transitions.toStates = transitions.toStates.filter(state => state !== to);
+        transitions.guards.delete(to);
+        transitions.weights.delete(to);
+        transitions.assigns.delete(to);
+        transitions.expiries.delete(to);
+        for (const [event, target] of [...transitions.events]) {
+            if (target === to) transitions.events.delete(event);
+        }
+
+        const incoming = this._transitions.get(to);
+        if (incoming) incoming.fromStates = incoming.fromStates.filter(state => state !== from);
+        this._edgeCbMap.get(from)?.delete(to);
+
+        for (const [id, config] of [...(this._timeoutConfigs.get(from) ?? [])]) {
+            if (config.expireTo === to && !config.onExpire) this.clearStateTimeout(from, id);
+        }
+
+        return true;
+    }
+
+    /**
+     * Removes a state with every edge leading to or leaving it, its timeouts, its callbacks and its place in the hierarchy.
+     * If it was the initial child of its parent, the next child becomes the initial one
+     * @param state State to remove
+     * @returns false if the machine does not know the state
+     * @throws {Error} If the graph is sealed, or the state is active, the initial state or a compound state with children
+     *
+     * @example
+     * // The graph shipped by the new version no longer has Legacy, leave it first
+     * if (stateMachine.matches(State.Legacy)) stateMachine.go(State.Idle);
+     * stateMachine.removeState(State.Legacy);
+     */
+    removeState(state: StateEnum): boolean {
+        this._assertMutable();
+        const known = this._transitions.has(state) || this._parents.has(state) || this._compounds.has(state) || this._timeoutConfigs.has(state);
+        if (!known) return false;
+
+        if (this._active.has(state)) {
+            throw new Error(`Cannot remove active state ${state}, move the machine to another state first`);
+        }
+        if (state === this._initial) {
+            throw new Error(`Cannot remove initial state ${state}`);
+        }
+        if (this._compounds.has(state)) {
+            throw new Error(`Cannot remove compound state ${state}, remove its children first`);
+        }
+
+        const parent = this._parents.get(state);
+        const compound = parent !== undefined ? this._compounds.get(parent) : undefined;
+        if (parent !== undefined && compound) {
+            compound.children = compound.children.filter(child => child !== state);
+            if (compound.children.length === 0) {
+                this._compounds.delete(parent);
+            } else if (compound.initial === state) {
+                compound.initial = compound.children[0];
+            }
+        }
+        this._parents.delete(state);
+
+        const transitions = this._transitions.get(state);
+        for (const from of [...(transitions?.fromStates ?? [])]) this.removeTransition(from, state);
+        for (const to of [...(transitions?.toStates ?? [])]) this.removeTransition(state, to);
+        this._transitions.delete(state);
+        this.clearStateTimeout(state);
+
+        this._cbMap.delete(state);
+        this._exitCbMap.delete(state);
+        this._edgeCbMap.delete(state);
+        for (const edgeCallbacks of this._edgeCbMap.values()) edgeCallbacks.delete(state);
+
+        this._historyMemory.delete(state);
+        for (const [remembered, states] of this._historyMemory) {
+            this._historyMemory.set(remembered, states.filter(active => active !== state));
+        }
+
+        return true;
+    }
+
+    /**
+     * Registers a named event that moves `from -> to`, creating the edge if it does not exist yet.
+     * The same event can be registered from several states, each with its own target.
+     * @param event Event name
+     * @param from From State, or list of From States sharing the same target
+     * @param to To State
+     * @param options Optional guard, weight, expiry and context reducer for the created edges
+     *
+     * @example
+     * stateMachine.addEvent(Event.Retry, [State.Failed, State.Timeout], State.Uploading);
+     * stateMachine.send(Event.Retry, { attempt: 2 });
+     *
+     * @example
+     * // The payload is available to the reducer
+     * cart.addEvent(Event.Add, State.Shopping, State.Shopping, {
+     *   assign: (ctx, from, to, item) => ({ ...ctx, items: [...ctx.items, item] })
+     * });
+     */
+    addEvent(
+        event: EventEnum,
+        from: StateEnum | StateEnum[],
+        to: StateEnum,
+        options?: Omit<TransitionOptions<StateEnum, Context>, 'loop'>,
+    ): void {
+        const fromStates = Array.isArray(from) ? from : [from];
+
+        for (const _from of fromStates) {
+            this.addFromState(_from, to, options);
+            this._transitions.get(_from)?.events.set(event, to);
+        }
+    }
+
+    /**
+     * Helper function to ensure the map properties are defined,
+     * Also will limit the amount of the from and to properties pushed to the transitions
+     * @param from State From
+     * @param to State To go to
+     * @param options Guard, weight, expiry and context reducer to attach to the edge (optional)
+     */
+    private addFromState(from: StateEnum, to: StateEnum, options: Omit<TransitionOptions<StateEnum, Context>, 'loop'> = {}) {
+        this._assertMutable();
+        const { guard, weight, assign, expiresAfterMs } = options;
+        if (weight !== undefined && !(weight > 0)) {
+            throw new Error(`Weight of transition from ${from} to ${to} must be greater than 0`);
+        }
+        if (expiresAfterMs !== undefined && !(expiresAfterMs > 0)) {
+            throw new Error(`Expiry of transition from ${from} to ${to} must be greater than 0`);
+        }
+
+        if (!this._transitions.has(from)) {
+            this._transitions.set(from, new Transitions(from));
+        }
+
+        const transitionsfrom = this._transitions.get(from);
+        if (!transitionsfrom?.toStates.includes(to)) transitionsfrom?.toStates.push(to);
+        if (guard) transitionsfrom?.guards.set(to, guard);
+        if (weight !== undefined) transitionsfrom?.weights.set(to, weight);
+        if (assign) transitionsfrom?.assigns.set(to, assign);
+        if (expiresAfterMs !== undefined) transitionsfrom?.expiries.set(to, expiresAfterMs);
+
+        if (!this._transitions.has(to)) {
+            this._transitions.set(to, new Transitions(to));
+        }
+
+        const transitionsto = this._transitions.get(to);
+        if (!transitionsto?.fromStates.includes(from)) transitionsto?.fromStates.push(from);
+    }
+
+    /**
+     * Attempts to transition to the new state if possible
+     * @param state State to transition to
+     * @param options Optional configuration (throwOnInvalid: throw error on invalid transition)
+     * @returns New State that was transitioned (or current state if invalid and not throwing)
+     * @throws {InvalidTransitionError} If throwOnInvalid is true and transition is invalid
+     * 
+     * @example
+     * // Silent failure (default)
+     * stateMachine.go(StateB);
+     * 
+     * @example
+     * // Throw on invalid transition
+     * try {
+     *   stateMachine.go(StateB, { throwOnInvalid: true });
+     * } catch (error) {
+     *   console.error('Invalid transition:', error);
+     * }
+     */
+    go(state: StateEnum, options?: GoOptions): StateEnum {
+        return this._go(state, options, 'go');
+    }
+
+    /**
+     * Shared implementation of `go`, `undo`, `redo` and timeout expirations
+     * @private
+     */
+    private _go(state: StateEnum, options: GoOptions | undefined, cause: TransitionCause): StateEnum {
+        if (this._transitioning) {
+            this._deferred.push(() => this._go(state, options, cause));
+            return this._current;
+        }
+
+        const attempt = this._attempt({ from: this._current, to: state, cause }, options);
+        if (!attempt || !this._checkGo(attempt, options) || !this._passBeforeHooks(attempt, options)) {
+            return this.current;
+        }
+
+        return this._enter(attempt.to as StateEnum, undefined, cause);
+    }
+
+    /**
+     * Fires a named event, transitioning to the state registered for it from the current state with `addEvent`.
+     * The payload is passed to the entry callbacks as their `event` argument.
+     * @param event Event to fire
+     * @param payload Data handed to the entry callbacks (optional)
+     * @param options Optional configuration (throwOnInvalid: throw error if the event is not valid here)
+     * @returns New State that was transitioned (or current state if invalid and not throwing)
+     * @throws {InvalidTransitionError} If throwOnInvalid is true and the event is not handled from the current state
+     *
+     * @example
+     * stateMachine.on(State.Uploading, (from, to, payload) => upload(payload.file));
+     * stateMachine.send(Event.Retry, { file });
+     */
+    send(event: EventEnum, payload?: any, options?: GoOptions): StateEnum {
+        if (this._transitioning) {
+            this._deferred.push(() => this.send(event, payload, options));
+            return this._current;
+        }
+
+        const prepared = this._prepareSend(event, payload, options);
+        if (!prepared || !this._passBeforeHooks(prepared.attempt, options)) return this.current;
+
+        return this._enter(prepared.target, prepared.attempt.payload, 'send', event, prepared.source);
+    }
+
+    /**
+     * Async version of `go()` that awaits the beforeTransition hooks and the exit, edge and entry callbacks.
+     *
+     * Calls are queued: a `goAsync` / `sendAsync` made while another async transition is in flight starts once it
+     * settles, and a `go` / `send` / timeout expiration happening meanwhile is deferred until it settles.
+     * Do not `await` a queued call from inside a callback of the running transition, it would wait on itself.
+     *
+     * If a callback throws or rejects, the machine is rolled back to the state it left (restarting its timeout),
+     * or moved to `errorState` when given, and the returned promise rejects with a CallbackError wrapping the failure.
+     * @param state State to transition to
+     * @param options Optional configuration (throwOnInvalid, errorState)
+     * @returns Promise resolving to the new State (or current state if invalid and not throwing)
+     *
+     * @example
+     * stateMachine.on(State.Loading, async () => { data = await fetchData(); });
+     * await stateMachine.goAsync(State.Loading, { errorState: State.Error });
+     */
+    goAsync(state: StateEnum, options?: AsyncGoOptions<StateEnum>): Promise<StateEnum> {
+        return this._queueAsync(async () => {
+            const attempt = this._attempt({ from: this._current, to: state, cause: 'go' }, options);
+            if (!attempt || !this._checkGo(attempt, options)) return this.current;
+            return this._enterAsync(attempt.to as StateEnum, undefined, options, 'go');
+        });
+    }
+
+    /**
+     * Async version of `send()`, with the same queueing and error handling as `goAsync()`
+     * @param event Event to fire
+     * @param payload Data handed to the callbacks (optional)
+     * @param options Optional configuration (throwOnInvalid, errorState)
+     * @returns Promise resolving to the new State (or current state if invalid and not throwing)
+     */
+    sendAsync(event: EventEnum, payload?: any, options?: AsyncGoOptions<StateEnum>): Promise<StateEnum> {
+        return this._queueAsync(async () => {
+            const prepared = this._prepareSend(event, payload, options);
+            if (!prepared) return this.current;
+            return this._enterAsync(prepared.target, prepared.attempt.payload, options, 'send', event, prepared.source);
+        });
+    }
+
+    /**
+     * Check if the event can be fired from the current state (registered and not blocked by a guard)
+     * @param event Event to check
+     * @returns true if `send(event)` would transition, false otherwise
+     */
+    canSend(event: EventEnum): boolean {
+        return this._resolveEvent(event) !== undefined;
+    }
+
+    /**
+     * Get list of events that can be fired from the current state
+     * @returns Array of events accepted by `send` in the current state
+     */
+    getValidEvents(): EventEnum[] {
+        const events: EventEnum[] = [];
+        for (const state of this._activeInnermostFirst()) {
+            const transitions = this._transitions.get(state);
+            if (!transitions) continue;
+
+            for (const event of transitions.events.keys()) {
+                if (!events.includes(event) && this.canSend(event)) events.push(event);
+            }
+        }
+        return events;
+    }
+
+    /**
+     * Finds the innermost active state handling the event whose edge is not blocked by a guard
+     * @private
+     */
+    private _resolveEvent(event: EventEnum): { source: StateEnum; target: StateEnum } | undefined {
+        for (const source of this._activeInnermostFirst()) {
+            const target = this._transitions.get(source)?.events.get(event);
+            if (target !== undefined && this._passesGuard(source, target)) return { source, target };
+        }
+        return undefined;
+    }
+
+    /**
+     * Runs the plugins on a `send` attempt and resolves its target, a target changed by a plugin is validated like `go`
+     * @returns The attempt with its target and source, or undefined if blocked or invalid and not throwing
+     * @private
+     */
+    private _prepareSend(
+        event: EventEnum,
+        payload: any,
+        options?: GoOptions,
+    ): { attempt: TransitionAttempt<StateEnum, EventEnum>; target: StateEnum; source?: StateEnum } | undefined {
+        const resolved = this._resolveEvent(event);
+        const attempt = this._attempt({ from: this._current, to: resolved?.target, cause: 'send', event, payload }, options);
+        if (!attempt) return undefined;
+
+        if (attempt.to !== undefined && attempt.to !== resolved?.target) {
+            return this._checkGo(attempt, options) ? { attempt, target: attempt.to } : undefined;
+        }
+
+        const checked = this._checkSend(attempt, options);
+        return checked && { attempt, ...checked };
+    }
+
+    /**
+     * Validates the target of an attempt
+     * @returns false if invalid and not throwing (the error is reported to the onError handlers)
+     * @throws {InvalidTransitionError} If throwOnInvalid is true and transition is invalid
+     * @private
+     */
+    private _checkGo(attempt: TransitionAttempt<StateEnum, EventEnum>, options?: GoOptions): boolean {
+        const state = attempt.to as StateEnum;
+        if (this.canTransition(state)) return true;
+
+        const sources = this._activeInnermostFirst().filter(active => this._hasEdge(active, state));
+        const expired = sources.length > 0 && sources.every(source => this._isEdgeExpired(source, state));
+        const validTargets = this._getValidTransitions();
+        this._reject(new InvalidTransitionError(
+            `Invalid state transition from ${this._current} to ${state}` +
+            (expired ? ' (expired). ' : sources.length > 0 ? ' (blocked by guard). ' : '. ') +
+            `Valid transitions from ${this._current}: ${validTargets.join(', ')}`,
+            {
+                from: this._current,
+                to: state,
+                validTargets,
+                reason: expired ? 'expired' : sources.length > 0 ? 'guard' : 'no-transition',
+                event: attempt.event,
+            },
+        ), options, attempt);
+        return false;
+    }
+
+    /**
+     * Resolves the target of an event from the current state
+     * @returns The target state and the active state owning the edge, or undefined if invalid and not throwing
+     * @throws {InvalidTransitionError} If throwOnInvalid is true and the event is not handled from the current state
+     * @private
+     */
+    private _checkSend(attempt: TransitionAttempt<StateEnum, EventEnum>, options?: GoOptions): { source: StateEnum; target: StateEnum } | undefined {
+        const event = attempt.event as EventEnum;
+        const resolved = this._resolveEvent(event);
+        if (resolved) return resolved;
+
+        const source = this._activeInnermostFirst().find(active => this._transitions.get(active)?.events.has(event));
+        const target = source !== undefined ? this._transitions.get(source)?.events.get(event) : undefined;
+        const expired = source !== undefined && target !== undefined && this._isEdgeExpired(source, target);
+        this._reject(new InvalidTransitionError(
+            `Invalid event ${event} in state ${this._current}` +
+            (expired ? ` (transition to ${target} expired). ` : target !== undefined ? ` (transition to ${target} blocked by guard). ` : '. ') +
+            `Valid events in ${this._current}: ${this.getValidEvents().join(', ')}`,
+            {
+                from: this._current,
+                to: target,
+                validTargets: this._getValidTransitions(),
+                reason: expired ? 'expired' : target !== undefined ? 'guard' : 'unknown-event',
+                event,
+            },
+        ), options, attempt);
+        return undefined;
+    }
+
+    /**
+     * Runs the beforeTransition hooks for a validated attempt, reporting a cancellation or a failing hook
+     * @returns false if the transition must not happen
+     * @private
+     */
+    private _passBeforeHooks(attempt: TransitionAttempt<StateEnum, EventEnum>, options?: GoOptions): boolean {
+        const to = attempt.to as StateEnum;
+        const verdict = this._runBeforeHooks(to, attempt.payload);
+        if (verdict === 'allowed') return true;
+
+        if (verdict === 'cancelled') {
+            this._reject(new InvalidTransitionError(
+                attempt.cause === 'send'
+                    ? `Event ${attempt.event} in state ${this._current} was cancelled by a beforeTransition hook`
+                    : `State transition from ${this._current} to ${to} was cancelled by a beforeTransition hook`,
+                { from: this._current, to, validTargets: this._getValidTransitions(), reason: 'cancelled', event: attempt.event },
+            ), options, attempt);
+        } else {
+            this._reportCallbackErrors([verdict, ...this._settle(attempt, false, verdict)]);
+        }
+        return false;
+    }
+
+    /**
+     * Runs the beforeTransition hooks for `current -> to`, stopping at the first one that returns false or throws
+     * @returns `cancelled` if a hook returned false, the CallbackError if one threw
+     * @private
+     */
+    private _runBeforeHooks(to: StateEnum, event?: any): 'allowed' | 'cancelled' | CallbackError<StateEnum> {
+        for (const hook of [...this._beforeHooks]) {
+            let result: boolean | void | Promise<boolean | void>;
+            try {
+                result = hook(this._current, to, event, this._context);
+            } catch (error) {
+                return new CallbackError({ from: this._current, to, phase: 'before', cause: error });
+            }
+            if (result instanceof Promise) {
+                // Swallow the outcome, the transition is already reported as failed
+                result.catch(() => undefined);
+                const cause = new Error('beforeTransition hook returned a Promise, use goAsync() or sendAsync() to await it');
+                return new CallbackError({ from: this._current, to, phase: 'before', cause });
+            }
+            if (result === false) return 'cancelled';
+        }
+        return 'allowed';
+    }
+
+    /**
+     * Performs an already validated transition into `state`
+     * Order: exit callbacks of the old state, edge callbacks, entry callbacks of the new state, then its timeout.
+     * Transitions requested by the callbacks are deferred until this one is complete.
+     * A failing exit callback or context reducer cancels the transition, a failing edge or entry callback
+     * does not stop the transition from completing. Either way the failures are reported once the machine is consistent
+     * @param state State to enter
+     * @param event Payload handed to the callbacks
+     * @param cause What caused the transition, recorded in the history
+     * @param eventName Event that was sent, recorded in the history (optional)
+     * @param source Active state owning the edge (default: the innermost active state with a valid edge)
+     * @private
+     */
+    private _enter(state: StateEnum, event: any, cause: TransitionCause, eventName?: EventEnum, source?: StateEnum): StateEnum {
+        const from = this._current;
+        const plan = this._plan(state, source ?? this._findSource(state) ?? from);
+        const errors: Array<CallbackError<StateEnum>> = [];
+        let applied = false;
+        this._transitioning = true;
+
+        try {
+            // Trigger exit callbacks (innermost first) while still in the old states
+            for (const exited of plan.exits) {
+                this._runCallbacks(this._exitCbMap.get(exited), from, plan.leaf, event, 'exit', errors);
+            }
+
+            // Nothing has changed yet, so a failure so far leaves the machine where it was
+            if (errors.length === 0 && this._assign(plan.source, state, from, event, errors)) {
+                plan.exits.forEach(exited => this._clearStateTimeout(exited));
+                this._applyPlan(plan);
+                applied = true;
+                this._record(from, plan.leaf, cause, eventName);
+
+                // Trigger callbacks for this specific edge
+                this._runCallbacks(this._edgeCbMap.get(plan.source)?.get(state), from, plan.leaf, event, 'edge', errors);
+
+                // Trigger state entry callbacks (outermost first)
+                for (const entered of plan.entries) {
+                    this._runCallbacks(this._cbMap.get(entered), from, plan.leaf, event, 'entry', errors);
+                }
+
+                // Start timeouts if configured for the entered states
+                plan.entries.forEach(entered => this._startStateTimeout(entered));
+            }
+        } finally {
+            this._transitioning = false;
+            this._notify();
+        }
+
+        const attempt = { from, to: state, cause, event: eventName, payload: event };
+        errors.push(...this._settle(attempt, applied, errors[0], applied ? plan : undefined));
+        this._runDeferred();
+        this._reportCallbackErrors(errors);
+
+        return this._current;
+    }
+
+    /**
+     * Async counterpart of `_enter`, awaiting every hook and callback
+     * @private
+     */
+    private async _enterAsync(
+        state: StateEnum,
+        event: any,
+        options: AsyncGoOptions<StateEnum> | undefined,
+        cause: TransitionCause,
+        eventName?: EventEnum,
+        source?: StateEnum,
+    ): Promise<StateEnum> {
+        const from = this._current;
+        const previous = this._previous;
+        const active = [...this._active];
+        const historyMemory = this._historyMemory;
+        const context = this._context;
+        const enteredAt = new Map(this._enteredAt);
+        const records = { history: [...this._history], undoStack: [...this._undoStack], redoStack: [...this._redoStack] };
+        const plan = this._plan(state, source ?? this._findSource(state) ?? from);
+        const attempt: TransitionAttempt<StateEnum, EventEnum> = { from, to: state, cause, event: eventName, payload: event };
+        this._transitioning = true;
+
+        try {
+            for (const hook of [...this._beforeHooks]) {
+                let result: boolean | void;
+                try {
+                    result = await hook(this._current, state, event, this._context);
+                } catch (error) {
+                    const failure = new CallbackError({ from, to: state, phase: 'before', cause: error });
+                    this._settle(attempt, false, failure).forEach(pluginError => this._emitError(pluginError));
+                    throw failure;
+                }
+
+                if (result === false) {
+                    this._reject(new InvalidTransitionError(
+                        `State transition from ${from} to ${state} was cancelled by a beforeTransition hook`,
+                        { from, to: state, validTargets: this._getValidTransitions(), reason: 'cancelled', event: eventName },
+                    ), options, attempt);
+                    return this._current;
+                }
+            }
+
+            try {
+                for (const exited of plan.exits) {
+                    this._clearStateTimeout(exited);
+                    await this._runCallbacksAsync(this._exitCbMap.get(exited), from, plan.leaf, event, 'exit');
+                }
+
+                const errors: Array<CallbackError<StateEnum>> = [];
+                if (!this._assign(plan.source, state, from, event, errors)) throw errors[0];
+                this._applyPlan(plan);
+                // Recorded before the callbacks run, like go() does, and rolled back if one fails
+                this._record(from, plan.leaf, cause, eventName);
+
+                await this._runCallbacksAsync(this._edgeCbMap.get(plan.source)?.get(state), from, plan.leaf, event, 'edge');
+                for (const entered of plan.entries) {
+                    await this._runCallbacksAsync(this._cbMap.get(entered), from, plan.leaf, event, 'entry');
+                }
+
+                plan.entries.forEach(entered => this._startStateTimeout(entered));
+            } catch (error) {
+                this._recoverAsync(plan, { from, previous, active, historyMemory, context, enteredAt, ...records }, options?.errorState);
+                this._settle(attempt, false, error as CallbackError<StateEnum>).forEach(pluginError => this._emitError(pluginError));
+                throw error;
+            }
+
+            this._reportCallbackErrors(this._settle(attempt, true, undefined, plan));
+        } finally {
+            this._transitioning = false;
+            this._notify();
+            this._runDeferred();
+        }
+
+        return this._current;
+    }
+
+    /**
+     * Runs the context reducer of the `source -> to` edge, if any
+     * @returns false if the reducer threw, the error is added to `errors` and the context is unchanged
+     * @private
+     */
+    private _assign(source: StateEnum, to: StateEnum, from: StateEnum, event: any, errors: Array<CallbackError<StateEnum>>): boolean {
+        const assign = this._transitions.get(source)?.assigns.get(to);
+        if (!assign) return true;
+
+        try {
+            this._context = assign(this._context, from, to, event);
+        } catch (error) {
+            errors.push(new CallbackError({ from, to, phase: 'assign', cause: error }));
+            return false;
+        }
+
+        this._changed();
+        return true;
+    }
+
+    /**
+     * Puts the machine back in a consistent state after an async callback failed
+     * @private
+     */
+    private _recoverAsync(
+        plan: TransitionPlan<StateEnum>,
+        before: {
+            from: StateEnum;
+            previous: StateEnum;
+            active: StateEnum[];
+            historyMemory: Map<StateEnum, StateEnum[]>;
+            context: Context;
+            enteredAt: Map<StateEnum, number>;
+            history: Array<TransitionRecord<StateEnum, EventEnum>>;
+            undoStack: Array<TransitionRecord<StateEnum, EventEnum>>;
+            redoStack: Array<TransitionRecord<StateEnum, EventEnum>>;
+        },
+        errorState?: StateEnum,
+    ): void {
+        // Roll back to the configuration and history the transition started from
+        plan.entries.forEach(state => this._clearStateTimeout(state));
+        this._history = before.history;
+        this._undoStack = before.undoStack;
+        this._redoStack = before.redoStack;
+        this._active = new Set(before.active);
+        this._historyMemory = before.historyMemory;
+        this._context = before.context;
+        this._enteredAt = before.enteredAt;
+        this._current = before.from;
+        this._previous = before.previous;
+        this._changed();
+        [...plan.exits].reverse().forEach(state => this._startStateTimeout(state));
+
+        if (errorState === undefined) return;
+
+        // Move to the error state without running exit callbacks again
+        const errorPlan = this._plan(errorState, before.from);
+        errorPlan.exits.forEach(state => this._clearStateTimeout(state));
+        this._applyPlan(errorPlan);
+        this._record(before.from, errorPlan.leaf, 'error');
+
+        // The original failure rejects the promise, failures of the error state entry are only reported
+        const errors: Array<CallbackError<StateEnum>> = [];
+        for (const entered of errorPlan.entries) {
+            this._runCallbacks(this._cbMap.get(entered), before.from, errorPlan.leaf, undefined, 'entry', errors);
+        }
+        errorPlan.entries.forEach(entered => this._startStateTimeout(entered));
+        errors.forEach(error => this._emitError(error));
+    }
+
+    /**
+     * Chains an async transition after the ones already in flight
+     * @private
+     */
+    private _queueAsync(run: () => Promise<StateEnum>): Promise<StateEnum> {
+        const result = this._asyncQueue.then(run);
+        this._asyncQueue = result.catch(() => undefined);
+        return result;
+    }
+
+    /**
+     * Runs the `go` / `send` calls that were deferred while a transition was in progress.
+     * The transition that deferred them is already complete, so their errors (including `throwOnInvalid` ones)
+     * go to the onError handlers, or to `lastError` without one, and the remaining calls still run
+     * @private
+     */
+    private _runDeferred(): void {
+        while (!this._transitioning && this._deferred.length > 0) {
+            const next = this._deferred.shift();
+            try {
+                next?.();
+            } catch (error) {
+                if (!(error instanceof InvalidTransitionError || error instanceof CallbackError)) throw error;
+                this._keepError(error);
+            }
+        }
+    }
+
+    /**
+     * Reports an error that has no caller to be thrown at
+     * @private
+     */
+    private _keepError(error: TSMError<StateEnum, EventEnum>): void {
+        if (!this._emitError(error)) this._lastError = error;
+    }
+
+    /**
+     * Reverts the last transition by going back to the state it came from.
+     * Follows the transition graph: the edge back must exist and pass its guard,
+     * otherwise nothing happens (or it throws with throwOnInvalid)
+     * @param options Optional configuration (throwOnInvalid: throw error if there is nothing to undo or the edge is invalid)
+     * @returns The state after undoing
+     *
+     * @example
+     * wizard.go(Step.Address);
+     * wizard.undo(); // back to the previous step
+     * wizard.redo(); // and forward again
+     */
+    undo(options?: GoOptions): StateEnum {
+        if (this._transitioning) {
+            this._deferred.push(() => this.undo(options));
+            return this._current;
+        }
+
+        const record = this._undoStack[this._undoStack.length - 1];
+        if (!record || record.to !== this._current) {
+            this._reject(new InvalidTransitionError(`Nothing to undo in state ${this._current}`, {
+                from: this._current,
+                to: record?.from,
+                validTargets: this._getValidTransitions(),
+                reason: 'no-history',
+            }), options, { from: this._current, to: record?.from, cause: 'undo' });
+            return this.current;
+        }
+
+        return this._go(record.from, options, 'undo');
+    }
+
+    /**
+     * Alias for undo()
+     */
+    back(options?: GoOptions): StateEnum {
+        return this.undo(options);
+    }
+
+    /**
+     * Re-applies the last undone transition, any other transition clears the redo stack
+     * @param options Optional configuration (throwOnInvalid: throw error if there is nothing to redo or the edge is invalid)
+     * @returns The state after redoing
+     */
+    redo(options?: GoOptions): StateEnum {
+        if (this._transitioning) {
+            this._deferred.push(() => this.redo(options));
+            return this._current;
+        }
+
+        const record = this._redoStack[this._redoStack.length - 1];
+        if (!record || record.from !== this._current) {
+            this._reject(new InvalidTransitionError(`Nothing to redo in state ${this._current}`, {
+                from: this._current,
+                to: record?.to,
+                validTargets: this._getValidTransitions(),
+                reason: 'no-history',
+            }), options, { from: this._current, to: record?.to, cause: 'redo' });
+            return this.current;
+        }
+
+        return this._go(record.to, options, 'redo');
+    }
+
+    /**
+     * Check if undo() would transition
+     */
+    canUndo(): boolean {
+        const record = this._undoStack[this._undoStack.length - 1];
+        return !!record && record.to === this._current && this.canTransition(record.from);
+    }
+
+    /**
+     * Check if redo() would transition
+     */
+    canRedo(): boolean {
+        const record = this._redoStack[this._redoStack.length - 1];
+        return !!record && record.from === this._current && this.canTransition(record.to);
+    }
+
+    /**
+     * Get the transition history log, oldest first, bounded by `historyLimit`
+     * @returns Copy of the recorded transitions
+     */
+    getHistory(): Array<TransitionRecord<StateEnum, EventEnum>> {
+        return this._history.map(record => ({ ...record }));
+    }
+
+    /**
+     * Empties the history log and the undo / redo stacks
+     * @returns This class for method chaining
+     */
+    clearHistory(): TSM<StateEnum, EventEnum, Context> {
+        this._history = [];
+        this._undoStack = [];
+        this._redoStack = [];
+        return this;
+    }
+
+    /**
+     * Replays recorded transitions on this machine, starting from its current state.
+     * `reset` records call reset(), every other record is replayed with go() so callbacks fire again.
+     * Stops at the first record that does not start from the current state or is not a valid transition
+     * @param records Records from `getHistory()` (of this or another machine with the same graph)
+     * @param options Optional configuration (throwOnInvalid: throw error on the first failing record)
+     * @returns true if every record was replayed
+     *
+     * @example
+     * const log = machine.getHistory();
+     * debugMachine.reset();
+     * debugMachine.replay(log.slice(0, 5)); // time-travel to the 5th transition
+     */
+    replay(records: ReadonlyArray<TransitionRecord<StateEnum, EventEnum>>, options?: GoOptions): boolean {
+        for (const record of records) {
+            if (record.cause === 'reset') {
+                this.reset();
+                continue;
+            }
+
+            const valid = record.from === this._current && this.canTransition(record.to);
+            if (!valid || this.go(record.to, options) !== record.to) {
+                if (options?.throwOnInvalid) {
+                    throw new InvalidTransitionError(
+                        `Cannot replay transition from ${record.from} to ${record.to} in state ${this._current}`,
+                        { from: this._current, to: record.to, validTargets: this._getValidTransitions(), reason: 'no-path' },
+                    );
+                }
+                return false;
+            }
+        }
+
+        return true;
+    }
+
+    /**
+     * Appends a transition to the history log and maintains the undo / redo stacks
+     * @private
+     */
+    private _record(from: StateEnum, to: StateEnum, cause: TransitionCause, event?: EventEnum): void {
+        if (this._historyLimit <= 0) return;
+
+        const record: TransitionRecord<StateEnum, EventEnum> = { from, to, timestamp: this._scheduler.now(), cause };
+        if (event !== undefined) record.event = event;
+
+        this._history.push(record);
+        if (this._history.length > this._historyLimit) this._history.shift();
+
+        if (cause === 'undo') {
+            const undone = this._undoStack.pop();
+            if (undone) this._redoStack.push(undone);
+        } else if (cause === 'redo') {
+            const redone = this._redoStack.pop();
+            if (redone) this._undoStack.push(redone);
+        } else {
+            this._undoStack.push(record);
+            if (this._undoStack.length > this._historyLimit) this._undoStack.shift();
+            this._redoStack = [];
+        }
+    }
+
+    /**
+     * Computes the cheapest route from the current state to `target` over the transition graph.
+     * Guards are evaluated for every edge and edge weights are honoured (default weight 1, so without
+     * weights this is the route with the fewest transitions). Transitions of parent states apply to their children
+     * @param target State to reach
+     * @returns The states to go through, starting with the current state and ending with `target`
+     * (or the parent entering it by default), or undefined if no path exists
+     *
+     * @example
+     * player.findPath(State.Complete); // ['paused', 'running', 'complete']
+     */
+    findPath(target: StateEnum): StateEnum[] | undefined {
+        if (this._active.has(target)) return [this._current];
+
+        // Dijkstra, states are few so a linear scan for the closest one is enough
+        const distances = new Map<StateEnum, number>();
+        const parents = new Map<StateEnum, StateEnum>();
+        const visited = new Set<StateEnum>();
+        const start = this._current;
+        distances.set(start, 0);
+
+        while (true) {
+            let state: StateEnum | undefined;
+            for (const [candidate, distance] of distances) {
+                if (!visited.has(candidate) && (state === undefined || distance < (distances.get(state) as number))) {
+                    state = candidate;
+                }
+            }
+            if (state === undefined) return undefined;
+            visited.add(state);
+
+            if (state !== start && this._pathActivates(state).includes(target)) {
+                const path = [state];
+                for (let step = parents.get(state); step !== undefined; step = parents.get(step)) path.unshift(step);
+                return path;
+            }
+
+            const sources = state === start ? this._activeInnermostFirst() : this._pathActivates(state);
+            for (const source of sources) {
+                const transitions = this._transitions.get(source);
+                if (!transitions) continue;
+
+                for (const to of transitions.toStates) {
+                    if (visited.has(to) || !this._passesGuard(source, to)) continue;
+
+                    const distance = (distances.get(state) as number) + (transitions.weights.get(to) ?? 1);
+                    if (distance < (distances.get(to) ?? Infinity)) {
+                        distances.set(to, distance);
+                        parents.set(to, state);
+                    }
+                }
+            }
+        }
+    }
+
+    /**
+     * Walks the route found by findPath(), one go() per step so entry callbacks, exit callbacks
+     * and timeouts run for every intermediate state
+     * @param target State to reach
+     * @param options Optional configuration (throwOnInvalid: throw error if no path exists or a step is rejected)
+     * @returns The state reached, which is the current state unchanged if no path exists, or the last
+     * state reached if a step was rejected (for example by a beforeTransition hook)
+     * @throws {InvalidTransitionError} If throwOnInvalid is true and the target cannot be reached
+     *
+     * @example
+     * player.goTo(State.Complete); // Paused -> Running -> Complete
+     */
+    goTo(target: StateEnum, options?: GoOptions): StateEnum {
+        if (this._transitioning) {
+            this._deferred.push(() => this.goTo(target, options));
+            return this._current;
+        }
+
+        const path = this.findPath(target);
+        if (!path) {
+            this._reject(new InvalidTransitionError(`No path from ${this._current} to ${target}`, {
+                from: this._current,
+                to: target,
+                validTargets: this._getValidTransitions(),
+                reason: 'no-path',
+            }), options, { from: this._current, to: target, cause: 'go' });
+            return this.current;
+        }
+
+        for (const step of path.slice(1)) {
+            this._go(step, undefined, 'go');
+
+            if (!this._active.has(step)) {
+                this._reject(new InvalidTransitionError(
+                    `Path to ${target} was interrupted at ${this._current}, transition to ${step} was rejected`,
+                    { from: this._current, to: target, validTargets: this._getValidTransitions(), reason: 'no-path' },
+                ), options, { from: this._current, to: target, cause: 'go' });
+                return this.current;
+            }
+        }
+
+        return this.current;
+    }
+
+    /**
+     * States active after planning to enter `state`: itself, its ancestors and its default descendants, innermost first
+     * @private
+     */
+    private _pathActivates(state: StateEnum): StateEnum[] {
+        return [...this._defaultDescendants(state, this._historyMemory).reverse(), state, ...this._ancestors(state)];
+    }
+
+    /**
+     * Check if a transition to the given state is valid from the current state.
+     * This method does NOT perform the transition, only checks if it's possible.
+     * The edge must exist and its guard (if any) must pass.
+     * @param state State to check transition to
+     * @returns true if transition is valid, false otherwise
+     * 
+     * @example
+     * if (stateMachine.canTransition(StateB)) {
+     *   stateMachine.go(StateB);
+     * }
+     */
+    canTransition(state: StateEnum): boolean {
+        return this._findSource(state) !== undefined;
+    }
+
+    /**
+     * Finds the innermost active state with a valid edge to `to`, so edges on compound states apply to their children
+     * @private
+     */
+    private _findSource(to: StateEnum): StateEnum | undefined {
+        return this._activeInnermostFirst().find(state => this._hasEdge(state, to) && this._passesGuard(state, to));
+    }
+
+    /**
+     * Checks if the `from -> to` edge exists, ignoring guards
+     * @private
+     */
+    private _hasEdge(from: StateEnum, to: StateEnum): boolean {
+        const transitions = this._transitions.get(from);
+        if (transitions === undefined) return false;
+
+        for (const t of transitions.toStates) {
+            if (t === to) return true;
+        }
+
+        return false;
+    }
+
+    /**
+     * Evaluates the expiry and the guard of the `from -> to` edge, edges without a guard always pass
+     * @private
+     */
+    private _passesGuard(from: StateEnum, to: StateEnum): boolean {
+        if (this._isEdgeExpired(from, to)) return false;
+
+        const guard = this._transitions.get(from)?.guards.get(to);
+        return guard ? guard(from, to, this._context) : true;
+    }
+
+    /**
+     * Checks if an expiring `from -> to` edge is past its validity window, only active states have one running
+     * @private
+     */
+    private _isEdgeExpired(from: StateEnum, to: StateEnum): boolean {
+        const remainingMs = this._edgeRemainingMs(from, to);
+        return remainingMs !== undefined && remainingMs <= 0;
+    }
+
+    /**
+     * Milliseconds left before an expiring edge closes, undefined if it does not expire or `from` is not active
+     * @private
+     */
+    private _edgeRemainingMs(from: StateEnum, to: StateEnum): number | undefined {
+        const expiresAfterMs = this._transitions.get(from)?.expiries.get(to);
+        const enteredAt = this._enteredAt.get(from);
+        if (expiresAfterMs === undefined || enteredAt === undefined) return undefined;
+
+        return Math.max(0, enteredAt + expiresAfterMs - this._timerNow());
+    }
+
+    /**
+     * Get list of valid transitions from the current state, edges whose guard currently fails are left out
+     * @returns Array of states that can be transitioned to from current state
+     */
+    getValidTransitions(): StateEnum[] {
+        return this._getValidTransitions();
+    }
+
+    /**
+     * Get list of valid transitions from the current state (internal)
+     * @private
+     */
+    private _getValidTransitions(): StateEnum[] {
+        const targets: StateEnum[] = [];
+        for (const state of this._activeInnermostFirst()) {
+            const transitions = this._transitions.get(state);
+            if (!transitions) continue;
+
+            for (const to of transitions.toStates) {
+                if (!targets.includes(to) && this._passesGuard(state, to)) targets.push(to);
+            }
+        }
+        return targets;
+    }
+
+    /**
+     * Sets the Current state to the initial state
+     * Sets the previous to the initial state
+     * Clears all active timeouts
+     * Plugins can block a reset, a changed target is ignored
+     */
+    reset(): void {
+        const attempt = this._attempt({ from: this._current, to: this._initial, cause: 'reset' });
+        if (!attempt) return;
+
+        // Clear all active timeouts
+        this._clearAllTimeouts();
+        
+        const from = this._current;
+        const exits = [...this._active].reverse();
+        this._historyMemory = new Map();
+        this._context = this._initialContext;
+        this._active = new Set([this._initial]);
+        this._enteredAt = new Map();
+        this._current = this._initial;
+        this._syncConfiguration();
+        this._previous = this._current; // should previous also be initial in this case?
+        this._record(from, this._current, 'reset');
+        
+        // Start timeout if configured for initial state (and its active descendants)
+        this._active.forEach(state => this._startStateTimeout(state));
+
+        this._changed();
+        this._notify();
+        this._reportCallbackErrors(this._settle(attempt, true, undefined, { exits, entries: [...this._active] }));
+    }
+
+    /**
+     * This will register a callback that will trigger when a `to` state is triggered
+     * Eventually this will have an expiration
+     * @param to Transition State that triggers callback
+     * @param callback Event that is triggered, `event` is the payload passed to `send` (undefined for `go`)
+     * and `context` the extended state after the transition
+     * @returns This class
+     */
+    on(to: StateEnum, callback: StateCallback<StateEnum, Context>): TSM<StateEnum, EventEnum, Context> {
+        this._addCallback(this._cbMap, to, callback);
+        return this;
+    }
+
+    /**
+     * Registers a callback that triggers when leaving a state, before the new state is entered
+     * @param from State whose exit triggers the callback
+     * @param callback Called with `(from, to, event)` while `current` is still `from`
+     * @returns This class
+     *
+     * @example
+     * stateMachine.onExit(State.Connected, () => socket.close());
+     */
+    onExit(from: StateEnum, callback: StateCallback<StateEnum, Context>): TSM<StateEnum, EventEnum, Context> {
+        this._addCallback(this._exitCbMap, from, callback);
+        return this;
+    }
+
+    /**
+     * Registers a callback that triggers only for the `from -> to` edge, after exit and before entry callbacks
+     * @param from From State
+     * @param to To State
+     * @param callback Called with `(from, to, event)`
+     * @returns This class
+     */
+    onTransition(from: StateEnum, to: StateEnum, callback: StateCallback<StateEnum, Context>): TSM<StateEnum, EventEnum, Context> {
+        if (!this._edgeCbMap.has(from)) {
+            this._edgeCbMap.set(from, new Map());
+        }
+
+        const edgeCallbacks = this._edgeCbMap.get(from);
+        if (edgeCallbacks) this._addCallback(edgeCallbacks, to, callback);
+
+        return this;
+    }
+
+    /**
+     * Registers a hook that runs before every transition (go, send and timeout expirations).
+     * Returning `false` cancels the transition, the state and timers are left untouched.
+     * @param hook Called with `(from, to, event)` before anything changes
+     * @returns This class
+     *
+     * @example
+     * stateMachine.beforeTransition((from, to) => !(from === State.Editing && hasUnsavedChanges));
+     */
+    beforeTransition(hook: BeforeTransitionHook<StateEnum, Context>): TSM<StateEnum, EventEnum, Context> {
+        if (!this._beforeHooks.includes(hook)) {
+            this._beforeHooks.push(hook);
+        }
+
+        return this;
+    }
+
+    /**
+     * Removes a callback or hook registered with `on`, `onExit`, `onTransition`, `beforeTransition` or `onError`
+     * @param callback The function that was registered
+     * @returns This class
+     */
+    off(
+        callback: StateCallback<StateEnum, Context> | BeforeTransitionHook<StateEnum, Context> | ErrorHandler<StateEnum, EventEnum>,
+    ): TSM<StateEnum, EventEnum, Context> {
+        this._removeCallback(this._cbMap, callback);
+        this._removeCallback(this._exitCbMap, callback);
+        for (const edgeCallbacks of this._edgeCbMap.values()) {
+            this._removeCallback(edgeCallbacks, callback);
+        }
+        this._beforeHooks = this._beforeHooks.filter(hook => hook !== callback);
+        this._errorHandlers = this._errorHandlers.filter(handler => handler !== callback);
+
+        return this;
+    }
+
+    /**
+     * Helper to ensure the callback list exists and the callback is only added once
+     * @private
+     */
+    private _addCallback(map: StateCallbackSet<StateEnum, Context>, state: StateEnum, callback: StateCallback<StateEnum, Context>): void {
+        if (!map.has(state)) {
+            map.set(state, []);
+        }
+
+        const cbSet = map.get(state);
+
+        if (!cbSet) {
+            throw new Error("Cannot create callback with State : " + state);
+        }
+
+        if (!cbSet.includes(callback)) {
+            cbSet.push(callback);
+        }
+    }
+
+    /**
+     * Removes the callback from every list in the map, dropping lists that become empty
+     * @private
+     */
+    private _removeCallback(map: StateCallbackSet<StateEnum, Context>, callback: Function): void {
+        for (const [state, cbSet] of map.entries()) {
+            const remaining = cbSet.filter(cb => cb !== callback);
+            if (remaining.length === 0) {
+                map.delete(state);
+            } else {
+                map.set(state, remaining);
+            }
+        }
+    }
+
+    /**
+     * Calls a list of callbacks, iterating over a copy so callbacks can safely call `off`.
+     * A failing callback does not stop the others, its error is added to `errors`
+     * @private
+     */
+    private _runCallbacks(
+        cbs: Array<StateCallback<StateEnum, Context>> | undefined,
+        from: StateEnum,
+        to: StateEnum,
+        event: any,
+        phase: CallbackPhase,
+        errors: Array<CallbackError<StateEnum>>,
+    ): void {
+        if (!cbs) return;
+
+        for (const cb of [...cbs]) {
+            try {
+                cb(from, to, event, this._context);
+            } catch (error) {
+                errors.push(new CallbackError({ from, to, phase, cause: error }));
+            }
+        }
+    }
+
+    /**
+     * Calls a list of callbacks one after the other, awaiting each result
+     * @throws {CallbackError} Wrapping the first failure
+     * @private
+     */
+    private async _runCallbacksAsync(
+        cbs: Array<StateCallback<StateEnum, Context>> | undefined,
+        from: StateEnum,
+        to: StateEnum,
+        event: any,
+        phase: CallbackPhase,
+    ): Promise<void> {
+        if (!cbs) return;
+
+        for (const cb of [...cbs]) {
+            try {
+                await cb(from, to, event, this._context);
+            } catch (error) {
+                throw new CallbackError({ from, to, phase, cause: error });
+            }
+        }
+    }
+
+    /**
+     * Registers a handler for the errors of this machine: rejected transitions (when not using throwOnInvalid),
+     * failing callbacks and timeouts whose expireTo is not a valid transition.
+     * Without a handler, callback failures are thrown once the machine is consistent again and the other errors are ignored
+     * @param handler Called with an InvalidTransitionError, TimeoutConfigError or CallbackError
+     * @returns This class for method chaining, remove the handler with `off`
+     *
+     * @example
+     * stateMachine.onError(error => {
+     *   if (error instanceof CallbackError) logger.error(error.cause);
+     * });
+     */
+    onError(handler: ErrorHandler<StateEnum, EventEnum>): TSM<StateEnum, EventEnum, Context> {
+        if (!this._errorHandlers.includes(handler)) {
+            this._errorHandlers.push(handler);
+        }
+        return this;
+    }
+
+    /**
+     * Registers a plugin that sees every transition attempt (go, send, undo / redo, timeouts and reset)
+     * and its outcome, and can block or modify attempts before they are validated
+     * @param plugin Plugin, registering the same one twice has no effect
+     * @returns This class for method chaining
+     *
+     * @example
+     * stateMachine.use(loggerPlugin(entry => logger.info(entry)));
+     * stateMachine.use({
+     *   name: 'read-only',
+     *   onAttempt: attempt => attempt.cause !== 'go' || !readOnly,
+     * });
+     */
+    use(plugin: TSMPlugin<StateEnum, EventEnum, Context>): TSM<StateEnum, EventEnum, Context> {
+        if (this._plugins.includes(plugin)) return this;
+
+        this._plugins.push(plugin);
+        plugin.setup?.(this);
+        return this;
+    }
+
+    /**
+     * Removes a plugin registered with `use`
+     * @param plugin The plugin or its name
+     * @returns This class for method chaining
+     */
+    eject(plugin: TSMPlugin<StateEnum, EventEnum, Context> | string): TSM<StateEnum, EventEnum, Context> {
+        const ejected = this._plugins.filter(registered => registered === plugin || registered.name === plugin);
+        this._plugins = this._plugins.filter(registered => !ejected.includes(registered));
+        ejected.forEach(registered => registered.teardown?.(this));
+        return this;
+    }
+
+    /**
+     * Passes an attempt through the onAttempt handlers of the plugins
+     * @returns The attempt as changed by the plugins, or undefined if one blocked it (reported like a cancellation)
+     * @private
+     */
+    private _attempt(attempt: TransitionAttempt<StateEnum, EventEnum>, options?: GoOptions): TransitionAttempt<StateEnum, EventEnum> | undefined {
+        for (const plugin of [...this._plugins]) {
+            if (!plugin.onAttempt) continue;
+
+            let verdict: ReturnType<NonNullable<typeof plugin.onAttempt>>;
+            try {
+                verdict = plugin.onAttempt(attempt, this);
+            } catch (error) {
+                const failure = new CallbackError({ from: attempt.from, to: attempt.to ?? attempt.from, phase: 'plugin', cause: error });
+                this._reportCallbackErrors([failure, ...this._settle(attempt, false, failure)]);
+                return undefined;
+            }
+
+            if (verdict === false) {
+                this._reject(new InvalidTransitionError(
+                    attempt.cause === 'send'
+                        ? `Event ${attempt.event} in state ${attempt.from} was blocked by plugin ${plugin.name}`
+                        : `State transition from ${attempt.from} to ${attempt.to} was blocked by plugin ${plugin.name}`,
+                    { from: attempt.from, to: attempt.to, validTargets: this._getValidTransitions(), reason: 'cancelled', event: attempt.event },
+                ), options, attempt);
+                return undefined;
+            }
+
+            if (typeof verdict === 'object') {
+                attempt = { ...attempt };
+                if (verdict.to !== undefined) attempt.to = verdict.to;
+                if ('payload' in verdict) attempt.payload = verdict.payload;
+            }
+        }
+        return attempt;
     }
 
     /**
-     * Check if a transition to the given state is valid from the current state.
-     * This method does NOT perform the transition, only checks if it's possible.
-     * @param state State to check transition to
-     * @returns true if transition is valid, false otherwise
-     * 
-     * @example
-     * if (stateMachine.canTransition(StateB)) {
-     *   stateMachine.go(StateB);
-     * }
+     * Hands the outcome of an attempt to the onResult handlers of the plugins
+     * @param plan States left and entered, for an accepted transition
+     * @returns The failures of the handlers, for the caller to report once the machine is consistent
+     * @private
      */
-    canTransition(state: StateEnum): boolean {
-        if (!this._transitions.has(this._current)) {
-            return false;
-        }
-
-        const transitions = this._transitions.get(this._current);
-        if (transitions === undefined) return false;
+    private _settle(
+        attempt: TransitionAttempt<StateEnum, EventEnum>,
+        accepted: boolean,
+        error?: TSMError<StateEnum, EventEnum>,
+        plan?: Pick<TransitionPlan<StateEnum>, 'exits' | 'entries'>,
+    ): Array<CallbackError<StateEnum>> {
+        if (this._plugins.length === 0) return [];
 
-        for (const t of transitions.toStates) {
-            if (t === state) return true;
+        const result: TransitionResult<StateEnum, EventEnum> = { ...attempt, accepted, current: this._current };
+        if (error) result.error = error;
+        if (plan) {
+            result.exited = [...plan.exits];
+            result.entered = [...plan.entries];
         }
+        const failures: Array<CallbackError<StateEnum>> = [];
+        for (const plugin of [...this._plugins]) {
+            try {
+                plugin.onResult?.(result, this);
+            } catch (failure) {
+                failures.push(new CallbackError({ from: attempt.from, to: attempt.to ?? attempt.from, phase: 'plugin', cause: failure }));
+            }
+        }
+        return failures;
+    }
 
-        return false;
+    /**
+     * Tells the plugins about a rejected attempt, then throws with throwOnInvalid or reports to the onError handlers
+     * @private
+     */
+    private _reject(error: InvalidTransitionError<StateEnum, EventEnum>, options: GoOptions | undefined, attempt: TransitionAttempt<StateEnum, EventEnum>): void {
+        this._reportCallbackErrors(this._settle(attempt, false, error));
+        if (options?.throwOnInvalid) throw error;
+        this._emitError(error);
     }
 
     /**
-     * Get list of valid transitions from the current state
-     * @returns Array of states that can be transitioned to from current state
+     * Hands callback failures to the onError handlers, or throws the first one when there is none
+     * @private
      */
-    getValidTransitions(): StateEnum[] {
-        return this._getValidTransitions();
+    private _reportCallbackErrors(errors: Array<CallbackError<StateEnum>>): void {
+        if (errors.length === 0) return;
+        if (!this._emitError(errors[0])) throw errors[0];
+
+        errors.slice(1).forEach(error => this._emitError(error));
     }
 
     /**
-     * Get list of valid transitions from the current state (internal)
+     * @returns false if there is no onError handler
      * @private
      */
-    private _getValidTransitions(): StateEnum[] {
-        const transitions = this._transitions.get(this._current);
-        return transitions ? [...transitions.toStates] : [];
+    private _emitError(error: TSMError<StateEnum, EventEnum>): boolean {
+        if (this._errorHandlers.length === 0) return false;
+
+        for (const handler of [...this._errorHandlers]) {
+            handler(error);
+        }
+        return true;
     }
 
     /**
-     * Sets the Current state to the initial state
-     * Sets the previous to the initial state
-     * Clears all active timeouts
+     * Last error of a timeout expiration or deferred transition that had no onError handler to go to.
+     * They run from the scheduler or after the transition that requested them, so they keep their failures here
+     * instead of throwing at an unrelated caller
      */
-    reset(): void {
-        // Clear all active timeouts
-        this._clearAllTimeouts();
-        
-        this._previous = this._initial; // should previous also be initial in this case?
-        this._current = this._initial;
-        
-        // Start timeout if configured for initial state
-        this._startStateTimeout(this._initial);
+    get lastError(): TSMError<StateEnum, EventEnum> | undefined {
+        return this._lastError;
     }
 
     /**
-     * This will register a callback that will trigger when a `to` state is triggered
-     * Eventually this will have an expiration
-     * @param to Transition State that triggers callback
-     * @param callback Event that is triggered
-     * @returns This class
+     * Captures the current and previous state and the absolute deadlines of the active timers.
+     * The snapshot is JSON-serializable, the graph and callbacks are not part of it
+     * @returns Snapshot to hand to `restore()`
+     *
+     * @example
+     * localStorage.setItem('upload', JSON.stringify(stateMachine.snapshot()));
      */
-    on(to: StateEnum, callback: (from: StateEnum, to: StateEnum, event?: any) => any): TSM<StateEnum> {
-        if (!this._cbMap.has(to)) {
-            this._cbMap.set(to, []);
+    snapshot(): TSMSnapshot<StateEnum, Context> {
+        const takenAt = this._scheduler.now();
+        // Paused timer time lags behind the scheduler, shift it so the time left is kept
+        const shift = takenAt - this._timerNow();
+
+        const timers: TSMSnapshot<StateEnum, Context>['timers'] = [];
+        for (const [state, stateTimers] of this._activeTimers.entries()) {
+            for (const [id, timer] of stateTimers.entries()) {
+                timers.push(id === DEFAULT_TIMER_ID
+                    ? { state, deadline: timer.deadline + shift }
+                    : { state, id, deadline: timer.deadline + shift });
+            }
         }
 
-        const cbSet = this._cbMap.get(to);
+        const snapshot: TSMSnapshot<StateEnum, Context> = {
+            current: this._current,
+            previous: this._previous,
+            configuration: [...this._active],
+            timers,
+            enteredAt: Array.from(this._enteredAt.entries()).map(([state, at]) => ({ state, at: at + shift })),
+            takenAt,
+        };
+        if (this._context !== undefined) snapshot.context = this._context;
+        if (this._pausedAt !== undefined) snapshot.timersPaused = true;
+
+        return snapshot;
+    }
 
-        if (!cbSet) {
-            throw new Error("Cannot create callback with State : " + to);
+    /**
+     * Moves the machine to the position recorded by `snapshot()` without running any callbacks.
+     * Timers resume with the time left until their deadline, timers whose deadline already passed
+     * (e.g. while the process was down) expire immediately, before `restore()` returns.
+     * Timers that were paused stay paused with the time they had left.
+     * The machine must already have the graph and timeout configuration the snapshot was taken with
+     * @param snapshot Snapshot produced by `snapshot()`
+     * @returns This class for method chaining
+     * @throws {CallbackError} The first callback failure of the expired timers when there is no onError handler,
+     * once every expired timer ran
+     */
+    restore(snapshot: TSMSnapshot<StateEnum, Context>): TSM<StateEnum, EventEnum, Context> {
+        this._clearAllTimeouts();
+        const now = this._scheduler.now();
+        this._pausedAt = snapshot.timersPaused ? now : undefined;
+        // Time spent paused since the snapshot does not count
+        const reference = snapshot.timersPaused ? snapshot.takenAt : now;
+
+        this._current = snapshot.current;
+        this._previous = snapshot.previous;
+        this._active = new Set(snapshot.configuration ?? [snapshot.current]);
+        this._enteredAt = new Map();
+        for (const { state, at } of snapshot.enteredAt ?? []) {
+            if (this._active.has(state)) this._enteredAt.set(state, at - reference + now);
         }
+        this._syncConfiguration();
+        if ('context' in snapshot) this._context = snapshot.context as Context;
+        this._changed();
+        this._notify();
 
-        if (!cbSet.includes(callback)) {
-            cbSet.push(callback);
+        // Undo / redo entries no longer line up with the restored position
+        this._undoStack = [];
+        this._redoStack = [];
+
+        const expired: Array<{ state: StateEnum; id: string; config: StateTimeoutConfig<StateEnum, Context> }> = [];
+
+        for (const { state, id = DEFAULT_TIMER_ID, deadline } of snapshot.timers) {
+            const config = this._timeoutConfigs.get(state)?.get(id);
+            if (!config) continue;
+
+            if (deadline <= reference && !snapshot.timersPaused) {
+                expired.push({ state, id, config });
+            } else {
+                this._startTimer(state, id, config, deadline - reference);
+            }
+        }
+
+        // Unlike the scheduler, restore() has a caller to report the failures to
+        let failure: { error: unknown } | undefined;
+        for (const { state, id, config } of expired) {
+            try {
+                this._expire(state, id, config);
+            } catch (error) {
+                failure ??= { error };
+            }
         }
+        if (failure) throw failure.error;
 
         return this;
     }
@@ -314,10 +2706,13 @@ export class TSM<StateEnum> implements TemporalStateCreator<StateEnum> {
      * it will either transition to the specified state or call the expiration callback.
      * 
      * If the state transitions before the timeout, the timer is automatically cleared.
+     * A state can have several timers with different `id`s, setting a timer again with the same id replaces it.
+     * With `repeat`, onExpire is called every `timeoutMs` for as long as the state stays active.
      * 
      * @param state The state to set a timeout for
-     * @param options Timeout configuration (timeoutMs, expireTo, onExpire)
+     * @param options Timeout configuration (timeoutMs, expireTo, onExpire, id, repeat)
      * @returns This class for method chaining
+     * @throws {TimeoutConfigError} If timeoutMs is not positive, there is nothing to do on expiry or a repeating timer has no onExpire
      * 
      * @example
      * // Auto-transition on expiration
@@ -343,71 +2738,242 @@ export class TSM<StateEnum> implements TemporalStateCreator<StateEnum> {
      *     // Custom logic here
      *   }
      * });
+     *
+     * @example
+     * // Heartbeat while connected, next to a timeout with its own target
+     * stateMachine.setStateTimeout(State.Connected, { id: 'heartbeat', timeoutMs: 1000, repeat: true, onExpire: sendPing });
+     * stateMachine.setStateTimeout(State.Connected, { id: 'idle', timeoutMs: 60000, expireTo: State.Idle });
      */
-    setStateTimeout(state: StateEnum, options: StateTimeoutOptions<StateEnum>): TSM<StateEnum> {
+    setStateTimeout(state: StateEnum, options: StateTimeoutOptions<StateEnum, Context>): TSM<StateEnum, EventEnum, Context> {
+        this._assertMutable();
         if (options.timeoutMs <= 0) {
-            throw new Error("Timeout must be greater than 0");
+            throw new TimeoutConfigError(`Timeout of state ${state} must be greater than 0`, state);
         }
 
         if (!options.expireTo && !options.onExpire) {
-            throw new Error("Either expireTo or onExpire must be provided");
+            throw new TimeoutConfigError(`Timeout of state ${state} needs either expireTo or onExpire`, state);
         }
 
-        this._timeoutConfigs.set(state, {
+        if (options.repeat && !options.onExpire) {
+            throw new TimeoutConfigError(`Repeating timer of state ${state} needs onExpire`, state);
+        }
+
+        const id = options.id ?? DEFAULT_TIMER_ID;
+        const config: StateTimeoutConfig<StateEnum, Context> = {
             timeoutMs: options.timeoutMs,
             expireTo: options.expireTo,
             onExpire: options.onExpire,
-        });
+            repeat: options.repeat ?? false,
+        };
+
+        if (!this._timeoutConfigs.has(state)) this._timeoutConfigs.set(state, new Map());
+        this._timeoutConfigs.get(state)?.set(id, config);
 
         // If this state is currently active, start the timeout
-        if (this._current === state) {
-            this._startStateTimeout(state);
+        if (this._active.has(state)) {
+            this._startTimer(state, id, config);
         }
 
         return this;
     }
 
     /**
-     * Removes the timeout configuration for a state
+     * Removes a timer configuration for a state
      * @param state The state to remove timeout for
+     * @param id Timer to remove (default: every timer of the state)
+     * @returns This class for method chaining
+     */
+    clearStateTimeout(state: StateEnum, id?: string): TSM<StateEnum, EventEnum, Context> {
+        this._assertMutable();
+        if (id === undefined) {
+            this._timeoutConfigs.delete(state);
+            this._clearStateTimeout(state);
+            return this;
+        }
+
+        const configs = this._timeoutConfigs.get(state);
+        configs?.delete(id);
+        if (configs?.size === 0) this._timeoutConfigs.delete(state);
+        this._clearTimer(state, id);
+        return this;
+    }
+
+    /**
+     * Stops every state timer and freezes the expiring edges, keeping the time they have left.
+     * Transitions still work while paused, the timers of newly entered states start paused
+     * @returns This class for method chaining
+     *
+     * @example
+     * game.on(State.Menu, () => level.pauseTimers());
+     */
+    pauseTimers(): TSM<StateEnum, EventEnum, Context> {
+        if (this._pausedAt !== undefined) return this;
+
+        this._pausedAt = this._scheduler.now();
+        for (const timers of this._activeTimers.values()) {
+            for (const timer of timers.values()) {
+                this._scheduler.clearTimeout(timer.handle);
+                timer.handle = undefined;
+            }
+        }
+        return this;
+    }
+
+    /**
+     * Restarts the timers stopped by pauseTimers() with the time they had left
      * @returns This class for method chaining
      */
-    clearStateTimeout(state: StateEnum): TSM<StateEnum> {
-        this._timeoutConfigs.delete(state);
-        this._clearStateTimeout(state);
+    resumeTimers(): TSM<StateEnum, EventEnum, Context> {
+        if (this._pausedAt === undefined) return this;
+
+        const now = this._scheduler.now();
+        const pausedFor = now - this._pausedAt;
+        this._pausedAt = undefined;
+
+        for (const [state, at] of this._enteredAt.entries()) {
+            this._enteredAt.set(state, at + pausedFor);
+        }
+        for (const [state, timers] of this._activeTimers.entries()) {
+            for (const [id, timer] of timers.entries()) {
+                timer.deadline += pausedFor;
+                timer.handle = this._scheduler.setTimeout(() => {
+                    this._handleStateExpiration(state, id, timer.config);
+                }, Math.max(0, timer.deadline - now));
+            }
+        }
         return this;
     }
 
     /**
-     * Starts a timeout timer for the given state if configured
+     * Whether the timers are paused by pauseTimers()
+     */
+    get timersPaused(): boolean {
+        return this._pausedAt !== undefined;
+    }
+
+    /**
+     * Lists the timers of the active states with the time they have left
+     * @returns One entry per running (or paused) timer
+     *
+     * @example
+     * for (const { state, id, remainingMs } of stateMachine.getActiveTimers()) {
+     *   console.log(`${state}.${id} fires in ${remainingMs}ms`);
+     * }
+     */
+    getActiveTimers(): Array<ActiveTimerInfo<StateEnum>> {
+        const result: Array<ActiveTimerInfo<StateEnum>> = [];
+        for (const [state, timers] of this._activeTimers.entries()) {
+            for (const [id, timer] of timers.entries()) {
+                const info: ActiveTimerInfo<StateEnum> = {
+                    state,
+                    id,
+                    remainingMs: Math.max(0, timer.deadline - this._timerNow()),
+                    repeat: timer.config.repeat,
+                };
+                if (timer.config.expireTo !== undefined) info.expireTo = timer.config.expireTo;
+                result.push(info);
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Milliseconds left on a timer of an active state
+     * @param state State owning the timer
+     * @param id Timer id (default: the timer that fires first)
+     * @returns Time left, or undefined if no such timer is running
+     */
+    getRemainingTime(state: StateEnum, id?: string): number | undefined {
+        const remaining = this.getActiveTimers()
+            .filter(timer => timer.state === state && (id === undefined || timer.id === id))
+            .map(timer => timer.remainingMs);
+        return remaining.length > 0 ? Math.min(...remaining) : undefined;
+    }
+
+    /**
+     * Milliseconds left before an expiring `from -> to` edge closes
+     * @param from Active state the edge leaves
+     * @param to Target of the edge
+     * @returns Time left (0 once expired), or undefined if the edge does not expire or `from` is not active
+     *
+     * @example
+     * stateMachine.addTransition(State.Paused, State.Running, { expiresAfterMs: 30000 });
+     * stateMachine.getTransitionTimeRemaining(State.Paused, State.Running); // 30000 right after pausing
+     */
+    getTransitionTimeRemaining(from: StateEnum, to: StateEnum): number | undefined {
+        return this._edgeRemainingMs(from, to);
+    }
+
+    /**
+     * Current time for timers and expiring edges, frozen while the timers are paused
+     * @private
+     */
+    private _timerNow(): number {
+        return this._pausedAt ?? this._scheduler.now();
+    }
+
+    /**
+     * Starts every timer configured for the given state
      * @private
      */
     private _startStateTimeout(state: StateEnum): void {
-        const config = this._timeoutConfigs.get(state);
-        if (!config) {
-            return;
+        for (const [id, config] of this._timeoutConfigs.get(state) ?? []) {
+            this._startTimer(state, id, config);
         }
+    }
+
+    /**
+     * Starts one timer of a state, replacing it if it is already running. It is only scheduled once the timers are not paused
+     * @param delayMs Overrides the configured duration, used when resuming a partially elapsed timer
+     * @private
+     */
+    private _startTimer(state: StateEnum, id: string, config: StateTimeoutConfig<StateEnum, Context>, delayMs?: number): void {
+        this._clearTimer(state, id);
 
-        // Clear any existing timer for this state
-        this._clearStateTimeout(state);
+        const duration = Math.max(0, delayMs ?? config.timeoutMs);
+        const timer: ActiveTimer<StateEnum, Context> = { config, deadline: this._timerNow() + duration };
+        if (this._pausedAt === undefined) {
+            timer.handle = this._scheduler.setTimeout(() => {
+                this._handleStateExpiration(state, id, config);
+            }, duration);
+        }
 
-        const timer = setTimeout(() => {
-            this._handleStateExpiration(state, config);
-        }, config.timeoutMs);
+        if (!this._activeTimers.has(state)) this._activeTimers.set(state, new Map());
+        this._activeTimers.get(state)?.set(id, timer);
+    }
 
-        this._activeTimers.set(state, timer);
+    /**
+     * Milliseconds left on a timer of a state
+     * @private
+     */
+    private _remainingMs(state: StateEnum, id: string): number | undefined {
+        const timer = this._activeTimers.get(state)?.get(id);
+        return timer === undefined ? undefined : Math.max(0, timer.deadline - this._timerNow());
     }
 
     /**
-     * Clears the timeout timer for a specific state
+     * Clears every timer of a specific state
      * @private
      */
     private _clearStateTimeout(state: StateEnum): void {
-        const timer = this._activeTimers.get(state);
-        if (timer) {
-            clearTimeout(timer);
-            this._activeTimers.delete(state);
+        for (const timer of this._activeTimers.get(state)?.values() ?? []) {
+            this._scheduler.clearTimeout(timer.handle);
         }
+        this._activeTimers.delete(state);
+    }
+
+    /**
+     * Clears one timer of a state
+     * @private
+     */
+    private _clearTimer(state: StateEnum, id: string): void {
+        const timers = this._activeTimers.get(state);
+        const timer = timers?.get(id);
+        if (!timers || !timer) return;
+
+        this._scheduler.clearTimeout(timer.handle);
+        timers.delete(id);
+        if (timers.size === 0) this._activeTimers.delete(state);
     }
 
     /**
@@ -415,28 +2981,46 @@ export class TSM<StateEnum> implements TemporalStateCreator<StateEnum> {
      * @private
      */
     private _clearAllTimeouts(): void {
-        for (const timer of this._activeTimers.values()) {
-            clearTimeout(timer);
+        for (const state of [...this._activeTimers.keys()]) {
+            this._clearStateTimeout(state);
+        }
+    }
+
+    /**
+     * Handles the expiration of a running timer, keeping the callback error in `lastError` when there is no onError handler
+     * @private
+     */
+    private _handleStateExpiration(state: StateEnum, id: string, config: StateTimeoutConfig<StateEnum, Context>): void {
+        try {
+            this._expire(state, id, config);
+        } catch (error) {
+            if (!(error instanceof CallbackError)) throw error;
+            this._lastError = error;
         }
-        this._activeTimers.clear();
     }
 
     /**
-     * Handles state expiration - either transitions to expireTo state or calls onExpire callback
+     * Either transitions to expireTo state or calls onExpire callback.
+     * A repeating timer is started again before onExpire runs, so leaving the state from onExpire stops it
      * @private
      */
-    private _handleStateExpiration(state: StateEnum, config: StateTimeoutConfig<StateEnum>): void {
+    private _expire(state: StateEnum, id: string, config: StateTimeoutConfig<StateEnum, Context>): void {
         // Only handle expiration if we're still in this state
-        if (this._current !== state) {
+        if (!this._active.has(state)) {
             return;
         }
 
         // Remove the timer from active timers
-        this._activeTimers.delete(state);
+        this._clearTimer(state, id);
+        if (config.repeat) this._startTimer(state, id, config);
 
         // If onExpire callback is provided, call it
         if (config.onExpire) {
-            config.onExpire(state);
+            try {
+                config.onExpire(state, this._context);
+            } catch (error) {
+                this._reportCallbackErrors([new CallbackError({ from: state, to: state, phase: 'expire', cause: error })]);
+            }
             return;
         }
 
@@ -444,11 +3028,12 @@ export class TSM<StateEnum> implements TemporalStateCreator<StateEnum> {
         if (config.expireTo !== undefined) {
             if (this.canTransition(config.expireTo)) {
                 // Use go() which will trigger callbacks and handle state properly
-                this.go(config.expireTo);
+                this._go(config.expireTo, undefined, 'timeout');
             } else {
-                console.warn(
-                    `State ${state} expired but cannot transition to ${config.expireTo} - invalid transition`
-                );
+                this._reject(new InvalidTransitionError(
+                    `State ${state} expired but cannot transition to ${config.expireTo} - invalid transition`,
+                    { from: this._current, to: config.expireTo, validTargets: this._getValidTransitions(), reason: 'invalid-timeout' },
+                ), undefined, { from: this._current, to: config.expireTo, cause: 'timeout' });
             }
         }
     }
@@ -471,15 +3056,13 @@ export class TSM<StateEnum> implements TemporalStateCreator<StateEnum> {
         lines.push('Current:  ' + this._current);
         lines.push('Previous: ' + this._previous);
         lines.push('Initial:  ' + this._initial);
+        if (this._compounds.size > 0) {
+            lines.push('Active:   ' + [...this._active].join(', '));
+        }
         lines.push('');
         
         // Collect all states
-        const allStates = new Set<StateEnum>();
-        for (const [state, transitions] of this._transitions.entries()) {
-            allStates.add(state);
-            transitions.toStates.forEach(s => allStates.add(s));
-            transitions.fromStates.forEach(s => allStates.add(s));
-        }
+        const allStates = this._collectStates();
         
         // Sort states for consistent output (convert to string for sorting)
         const sortedStates = Array.from(allStates).sort((a, b) => 
@@ -488,28 +3071,53 @@ export class TSM<StateEnum> implements TemporalStateCreator<StateEnum> {
         
         for (const state of sortedStates) {
             const transitions = this._transitions.get(state);
-            const isCurrent = state === this._current;
-            const stateMarker = isCurrent ? '* ' : '  ';
+            const isActive = this._active.has(state);
+            const stateMarker = isActive ? '* ' : '  ';
             
             lines.push(`${stateMarker}${state}`);
+
+            // Show children of compound states
+            const compound = this._compounds.get(state);
+            if (compound) {
+                const children = compound.children.map(child =>
+                    !compound.parallel && child === compound.initial ? `${child} (initial)` : `${child}`
+                );
+                const history = compound.history !== 'none' ? ` [${compound.history} history]` : '';
+                lines.push(`    ${compound.parallel ? 'regions' : 'children'}: ${children.join(', ')}${history}`);
+            }
             
-            // Show outgoing transitions
+            // Show outgoing transitions, guarded edges are marked with [guard]
             if (transitions && transitions.toStates.length > 0) {
-                lines.push(`    -> ${transitions.toStates.join(', ')}`);
+                const targets = transitions.toStates.map(to => {
+                    const marks = [];
+                    if (transitions.guards.has(to)) marks.push(' [guard]');
+                    if (transitions.expiries.has(to)) marks.push(` [expires ${transitions.expiries.get(to)}ms]`);
+                    return `${to}${marks.join('')}`;
+                });
+                lines.push(`    -> ${targets.join(', ')}`);
+            }
+
+            // Show named events leaving this state
+            if (transitions && transitions.events.size > 0) {
+                const events = Array.from(transitions.events.entries()).map(([event, to]) => `${event} -> ${to}`);
+                lines.push(`    on ${events.join(', ')}`);
             }
             
             // Show timeout configuration if it exists
-            const timeoutConfig = this._timeoutConfigs.get(state);
-            if (timeoutConfig) {
-                const timeoutInfo = [`timeout: ${timeoutConfig.timeoutMs}ms`];
+            for (const [id, timeoutConfig] of this._timeoutConfigs.get(state) ?? []) {
+                const label = id === DEFAULT_TIMER_ID ? 'timeout' : `timer ${id}`;
+                const timeoutInfo = [`${label}: ${timeoutConfig.timeoutMs}ms`];
+                if (timeoutConfig.repeat) {
+                    timeoutInfo.push(`repeating`);
+                }
                 if (timeoutConfig.expireTo !== undefined) {
                     timeoutInfo.push(`expires to ${timeoutConfig.expireTo}`);
                 }
                 if (timeoutConfig.onExpire) {
                     timeoutInfo.push(`custom callback`);
                 }
-                if (this._activeTimers.has(state)) {
-                    timeoutInfo.push(`ACTIVE`);
+                if (this._activeTimers.get(state)?.has(id)) {
+                    timeoutInfo.push(this._pausedAt !== undefined ? `PAUSED` : `ACTIVE`);
                 }
                 lines.push(`    (${timeoutInfo.join(', ')})`);
             }
@@ -519,20 +3127,57 @@ export class TSM<StateEnum> implements TemporalStateCreator<StateEnum> {
             if (callbacks && callbacks.length > 0) {
                 lines.push(`    [${callbacks.length} callback${callbacks.length > 1 ? 's' : ''}]`);
             }
+            const exitCallbacks = this._exitCbMap.get(state);
+            if (exitCallbacks && exitCallbacks.length > 0) {
+                lines.push(`    [${exitCallbacks.length} exit callback${exitCallbacks.length > 1 ? 's' : ''}]`);
+            }
         }
         
         lines.push('');
         
         // Summary
         let totalTransitions = 0;
+        let guardedTransitions = 0;
         for (const transitions of this._transitions.values()) {
             totalTransitions += transitions.toStates.length;
+            guardedTransitions += transitions.guards.size;
         }
-        lines.push(`States: ${allStates.size} | Transitions: ${totalTransitions} | Timeouts: ${this._timeoutConfigs.size} | Active: ${this._activeTimers.size}`);
+        lines.push(`States: ${allStates.size} | Transitions: ${totalTransitions} | Guards: ${guardedTransitions} | Timeouts: ${this._timeoutConfigs.size} | Active: ${this._countActiveTimers()}`);
         
         return lines.join('\n');
     }
 
+    /**
+     * Number of running (or paused) timers across the active states
+     * @private
+     */
+    private _countActiveTimers(): number {
+        let count = 0;
+        this._activeTimers.forEach(timers => count += timers.size);
+        return count;
+    }
+
+    /**
+     * Every state referenced by a transition, the hierarchy, a timeout or as the initial state
+     * @private
+     */
+    private _collectStates(): Set<StateEnum> {
+        const allStates = new Set<StateEnum>([this._initial]);
+        for (const [state, transitions] of this._transitions.entries()) {
+            allStates.add(state);
+            transitions.toStates.forEach(s => allStates.add(s));
+            transitions.fromStates.forEach(s => allStates.add(s));
+        }
+        for (const [state, compound] of this._compounds.entries()) {
+            allStates.add(state);
+            compound.children.forEach(s => allStates.add(s));
+        }
+        for (const state of this._timeoutConfigs.keys()) {
+            allStates.add(state);
+        }
+        return allStates;
+    }
+
     /**
      * Returns a string representation of the state machine.
      * Alias for generateStateDisplay().
@@ -548,6 +3193,108 @@ export class TSM<StateEnum> implements TemporalStateCreator<StateEnum> {
         return this.generateStateDisplay();
     }
 
+    /**
+     * Statically analyzes the transition graph: states unreachable from the initial state, dead ends,
+     * timeouts whose expireTo is not a valid transition, strongly connected components and cycles.
+     * Guards are assumed to pass
+     * @param options Optional configuration (maxCycles: bound on the number of cycles listed, default 100)
+     * @returns The analysis report
+     *
+     * @example
+     * const { unreachable, invalidTimeouts } = stateMachine.analyze();
+     */
+    analyze(options?: AnalyzeOptions): MachineAnalysis<StateEnum> {
+        return analyzeMachine(this.serializeStateMachine(), options);
+    }
+
+    /**
+     * Checks the transition graph for unreachable states, unexpected dead ends, invalid timeouts
+     * and optionally cycles, meant to be run in unit tests
+     * @param options Optional configuration (terminal: expected final states, allowUnreachable, forbidCycles,
+     * throwOnInvalid: throw an error listing every problem)
+     * @returns One message per problem, empty when the machine is valid
+     *
+     * @example
+     * it('has a valid upload machine', () => {
+     *   uploadFSM.validate({ terminal: [UploadState.Complete], throwOnInvalid: true });
+     * });
+     */
+    validate(options?: ValidateOptions<StateEnum>): string[] {
+        return validateMachine(this.serializeStateMachine(), options);
+    }
+
+    /**
+     * Shortest sequence of transitions between two states, ignoring guards (see analyze())
+     * @param from Start state
+     * @param to Target state
+     * @returns The states visited from `from` to `to` (both included), or undefined if unreachable
+     *
+     * @example
+     * stateMachine.shortestPath(State.Idle, State.Complete); // ['idle', 'uploading', 'complete']
+     */
+    shortestPath(from: StateEnum, to: StateEnum): StateEnum[] | undefined {
+        return findShortestPath(this.serializeStateMachine(), from, to);
+    }
+
+    /**
+     * Renders the state machine as a Mermaid `stateDiagram-v2`, with timeout expirations
+     * labelled `after Nms` and the active states highlighted
+     * @returns Mermaid source, paste it in a markdown ```mermaid block
+     *
+     * @example
+     * fs.writeFileSync('machine.mmd', stateMachine.toMermaid());
+     */
+    toMermaid(): string {
+        return toMermaid(this.serializeStateMachine());
+    }
+
+    /**
+     * Renders the state machine as a Graphviz DOT digraph, with timeout expirations
+     * as dashed `after Nms` edges and the active states filled
+     * @param name Graph name (default: `TSM`)
+     * @returns DOT source
+     *
+     * @example
+     * fs.writeFileSync('machine.dot', stateMachine.toDot());
+     * // dot -Tsvg machine.dot -o machine.svg
+     */
+    toDot(name?: string): string {
+        return toDot(this.serializeStateMachine(), name);
+    }
+
+    /**
+     * Renders the state machine as a W3C SCXML document, which can be opened in external editors
+     * and loaded back with `TSM.fromSCXML()`
+     * @returns SCXML source
+     */
+    toSCXML(): string {
+        return toSCXML(this.serializeStateMachine());
+    }
+
+    /**
+     * Builds a state machine from a W3C SCXML document, for example one designed in an external editor.
+     * Guards (`cond`) and timeout callbacks are resolved by name from the registry like `TSM.fromJSON()`
+     * @param xml SCXML source
+     * @param registry Named guards and onExpire callbacks referenced by the document
+     * @param options Constructor options
+     * @returns A new state machine in the document's initial state
+     * @throws {Error} If the document cannot be parsed or references a name missing from the registry
+     *
+     * @example
+     * const door = TSM.fromSCXML(fs.readFileSync('door.scxml', 'utf8'), { guards: { isUnlocked } });
+     */
+    static fromSCXML(xml: string, registry: MachineRegistry<string> = {}, options?: TSMOptions): TSM<string, string, any> {
+        return TSM.fromJSON(parseSCXML(xml), registry, options);
+    }
+
+    /**
+     * Alias for serializeStateMachine() so `JSON.stringify(stateMachine)` works,
+     * the output can be passed back to `TSM.fromJSON()`
+     */
+    toJSON(): SerializedStateMachine<StateEnum, EventEnum, Context> {
+        return this.serializeStateMachine();
+    }
+
     /**
      * Generates a JSON-serializable object representation of the state machine
      * including all states, transitions, and timeout configurations.
@@ -558,68 +3305,65 @@ export class TSM<StateEnum> implements TemporalStateCreator<StateEnum> {
      * const serialized = stateMachine.serializeStateMachine();
      * const json = JSON.stringify(serialized, null, 2);
      */
-    serializeStateMachine(): {
-        current: StateEnum;
-        previous: StateEnum;
-        initial: StateEnum;
-        states: Array<{
-            state: StateEnum;
-            toStates: StateEnum[];
-            fromStates: StateEnum[];
-            timeout?: {
-                timeoutMs: number;
-                expireTo?: StateEnum;
-                hasCallback: boolean;
-                isActive: boolean;
-            };
-            callbackCount: number;
-        }>;
-        summary: {
-            totalStates: number;
-            totalTransitions: number;
-            statesWithTimeouts: number;
-            activeTimers: number;
-        };
-    } {
+    serializeStateMachine(): SerializedStateMachine<StateEnum, EventEnum, Context> {
         // Collect all states
-        const allStates = new Set<StateEnum>();
-        for (const [state, transitions] of this._transitions.entries()) {
-            allStates.add(state);
-            transitions.toStates.forEach(s => allStates.add(s));
-            transitions.fromStates.forEach(s => allStates.add(s));
-        }
+        const allStates = this._collectStates();
         
         // Build state information
         const states = Array.from(allStates).map(state => {
             const transitions = this._transitions.get(state);
-            const timeoutConfig = this._timeoutConfigs.get(state);
+            const timeoutConfigs = this._timeoutConfigs.get(state);
             const callbacks = this._cbMap.get(state);
             
-            const stateInfo: {
-                state: StateEnum;
-                toStates: StateEnum[];
-                fromStates: StateEnum[];
-                timeout?: {
-                    timeoutMs: number;
-                    expireTo?: StateEnum;
-                    hasCallback: boolean;
-                    isActive: boolean;
-                };
-                callbackCount: number;
-            } = {
+            const stateInfo: SerializedState<StateEnum, EventEnum> = {
                 state,
                 toStates: transitions?.toStates || [],
                 fromStates: transitions?.fromStates || [],
+                guardedToStates: transitions ? Array.from(transitions.guards.keys()) : [],
+                events: transitions ? Array.from(transitions.events.entries()).map(([event, to]) => ({ event, to })) : [],
                 callbackCount: callbacks?.length || 0,
+                exitCallbackCount: this._exitCbMap.get(state)?.length || 0,
             };
+
+            if (transitions && transitions.assigns.size > 0) {
+                stateInfo.assignedToStates = Array.from(transitions.assigns.keys());
+            }
+            if (transitions && transitions.weights.size > 0) {
+                stateInfo.weights = Array.from(transitions.weights.entries()).map(([to, weight]) => ({ to, weight }));
+            }
+            if (transitions && transitions.expiries.size > 0) {
+                stateInfo.expiries = Array.from(transitions.expiries.entries()).map(([to, expiresAfterMs]) => ({ to, expiresAfterMs }));
+            }
+
+            const parent = this._parents.get(state);
+            if (parent !== undefined) stateInfo.parent = parent;
+
+            const compound = this._compounds.get(state);
+            if (compound) {
+                stateInfo.compound = {
+                    children: [...compound.children],
+                    initial: compound.initial,
+                    history: compound.history,
+                    parallel: compound.parallel,
+                };
+            }
             
-            if (timeoutConfig) {
-                stateInfo.timeout = {
+            for (const [id, timeoutConfig] of timeoutConfigs ?? []) {
+                const timer: NonNullable<SerializedState<StateEnum, EventEnum>['timeout']> = {
                     timeoutMs: timeoutConfig.timeoutMs,
                     expireTo: timeoutConfig.expireTo,
                     hasCallback: !!timeoutConfig.onExpire,
-                    isActive: this._activeTimers.has(state),
+                    isActive: !!this._activeTimers.get(state)?.has(id),
                 };
+                const remainingMs = this._remainingMs(state, id);
+                if (remainingMs !== undefined) timer.remainingMs = remainingMs;
+                if (timeoutConfig.repeat) timer.repeat = true;
+
+                if (id === DEFAULT_TIMER_ID) {
+                    stateInfo.timeout = timer;
+                } else {
+                    (stateInfo.timers ??= []).push({ id, ...timer });
+                }
             }
             
             return stateInfo;
@@ -627,21 +3371,37 @@ export class TSM<StateEnum> implements TemporalStateCreator<StateEnum> {
         
         // Calculate summary
         let totalTransitions = 0;
+        let guardedTransitions = 0;
         for (const transitions of this._transitions.values()) {
             totalTransitions += transitions.toStates.length;
+            guardedTransitions += transitions.guards.size;
         }
         
-        return {
+        const serialized: SerializedStateMachine<StateEnum, EventEnum, Context> = {
             current: this._current,
             previous: this._previous,
             initial: this._initial,
+            configuration: [...this._active],
             states,
             summary: {
                 totalStates: allStates.size,
                 totalTransitions,
+                guardedTransitions,
                 statesWithTimeouts: this._timeoutConfigs.size,
-                activeTimers: this._activeTimers.size,
+                activeTimers: this._countActiveTimers(),
             },
         };
+        if (this._context !== undefined) serialized.context = this._context;
+
+        return serialized;
     }
+}
+
+// Also expose the interop under Symbol.observable when a polyfill defined it
+if (symbolObservable) {
+    Object.defineProperty(TSM.prototype, symbolObservable, {
+        value: TSM.prototype['@@observable'],
+        writable: true,
+        configurable: true,
+    });
 }
\ No newline at end of file
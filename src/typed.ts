@@ -0,0 +1,205 @@
+import {
+    TSM,
+    type GoOptions,
+    type StateTimeoutOptions,
+    type TransitionGuard,
+    type TSMOptions,
+    type TSMState,
+} from './tsm';
+
+/**
+ * Transition graph as a const object: each state lists the states it can go to.
+ * Every target must itself be a key of the graph
+ */
+export type TransitionGraph<G> = { readonly [S in keyof G]: ReadonlyArray<keyof G> };
+
+/**
+ * States of a graph
+ */
+export type GraphState<G> = keyof G;
+
+/**
+ * Declared targets of a state
+ */
+export type GraphTarget<G, S extends keyof G> = G[S] extends ReadonlyArray<infer T> ? T & keyof G : never;
+
+/**
+ * setStateTimeout() options whose `expireTo` must be a declared target of the state
+ */
+export type TypedTimeoutOptions<G, S extends keyof G, Context = any> =
+    Omit<StateTimeoutOptions<keyof G, Context>, 'expireTo'> & { expireTo?: GraphTarget<G, S> };
+
+type TypedCallback<G, Context> = (from: keyof G, to: keyof G, event: any, context: Context) => any;
+
+/**
+ * Members of a typed machine that do not depend on the current state
+ */
+export interface TypedMachineBase<G, EventEnum, Context> {
+    /** The underlying runtime machine, for the dynamic parts of the API */
+    readonly machine: TSM<keyof G, EventEnum, Context>;
+    readonly previous: keyof G;
+    readonly context: Context;
+    matches(state: keyof G): boolean;
+    getValidTransitions(): Array<keyof G>;
+    send(event: EventEnum, payload?: any, options?: GoOptions): keyof G;
+    reset(): void;
+    subscribe(listener: (state: TSMState<keyof G, Context>) => void): () => void;
+    on(to: keyof G, callback: TypedCallback<G, Context>): TypedMachine<G, EventEnum, Context>;
+    onExit(from: keyof G, callback: TypedCallback<G, Context>): TypedMachine<G, EventEnum, Context>;
+    onTransition<F extends keyof G>(from: F, to: GraphTarget<G, F>, callback: TypedCallback<G, Context>): TypedMachine<G, EventEnum, Context>;
+    setTransitionGuard<F extends keyof G>(from: F, to: GraphTarget<G, F>, guard: TransitionGuard<keyof G, Context>): TypedMachine<G, EventEnum, Context>;
+    setStateTimeout<S extends keyof G>(state: S, options: TypedTimeoutOptions<G, S, Context>): TypedMachine<G, EventEnum, Context>;
+}
+
+/**
+ * View of a typed machine while it is in state `S`
+ */
+export interface TypedMachineIn<G, S extends keyof G, EventEnum, Context> extends TypedMachineBase<G, EventEnum, Context> {
+    readonly current: S;
+    /** Only the declared targets of `S` are accepted */
+    go(to: GraphTarget<G, S>, options?: GoOptions): keyof G;
+    canTransition(to: GraphTarget<G, S>): boolean;
+}
+
+/**
+ * Machine typed by its graph: a union of one view per state, discriminated by `current`.
+ * Narrow on `current` before calling go()
+ *
+ * @example
+ * if (upload.current === 'idle') upload.go('uploading');
+ */
+export type TypedMachine<G, EventEnum = string, Context = undefined> = {
+    [S in keyof G]: TypedMachineIn<G, S, EventEnum, Context>;
+}[keyof G];
+
+/**
+ * Graph declared once, from which typed machines are created
+ */
+export interface TypedGraph<G> {
+    readonly graph: G;
+    /** Every state of the graph */
+    readonly states: Array<keyof G>;
+    /**
+     * Creates a machine with every declared transition
+     * @param initial Initial state
+     * @param options Optional configuration (scheduler, historyLimit, context)
+     */
+    createMachine<EventEnum = string, Context = undefined>(initial: keyof G, options?: TSMOptions<Context>): TypedMachine<G, EventEnum, Context>;
+}
+
+/**
+ * Declares a transition graph whose shape is kept in the type system.
+ * Machines created from it only accept statically valid targets in go() once `current` is narrowed,
+ * and a timeout expiring to a state that is not a declared target does not compile.
+ * The runtime TSM stays available as `machine` for dynamic cases
+ * @param graph Targets of each state
+ * @returns The typed graph
+ *
+ * @example
+ * const uploadGraph = defineGraph({
+ *   idle: ['uploading'],
+ *   uploading: ['done', 'failed'],
+ *   failed: ['idle'],
+ *   done: [],
+ * });
+ *
+ * const upload = uploadGraph.createMachine('idle');
+ * upload.setStateTimeout('uploading', { timeoutMs: 30000, expireTo: 'failed' });
+ * upload.setStateTimeout('uploading', { timeoutMs: 30000, expireTo: 'idle' }); // compile error
+ *
+ * if (upload.current === 'uploading') {
+ *   upload.go('done');
+ *   upload.go('idle'); // compile error
+ * }
+ */
+export function defineGraph<const G extends TransitionGraph<G>>(graph: G): TypedGraph<G> {
+    const states = Object.keys(graph) as Array<keyof G>;
+
+    return {
+        graph,
+        states,
+        createMachine<EventEnum = string, Context = undefined>(initial: keyof G, options?: TSMOptions<Context>) {
+            const machine = new TSM<keyof G, EventEnum, Context>(initial, options);
+            for (const from of states) {
+                for (const to of graph[from]) machine.addTransition(from, to);
+            }
+            return new TypedTSM<G, EventEnum, Context>(machine) as unknown as TypedMachine<G, EventEnum, Context>;
+        },
+    };
+}
+
+/**
+ * Runtime side of TypedMachine, every member delegates to the wrapped TSM
+ */
+class TypedTSM<G, EventEnum, Context> {
+    readonly machine: TSM<keyof G, EventEnum, Context>;
+
+    constructor(machine: TSM<keyof G, EventEnum, Context>) {
+        this.machine = machine;
+    }
+
+    get current(): keyof G {
+        return this.machine.current;
+    }
+
+    get previous(): keyof G {
+        return this.machine.previous;
+    }
+
+    get context(): Context {
+        return this.machine.context;
+    }
+
+    matches(state: keyof G): boolean {
+        return this.machine.matches(state);
+    }
+
+    getValidTransitions(): Array<keyof G> {
+        return this.machine.getValidTransitions();
+    }
+
+    canTransition(to: keyof G): boolean {
+        return this.machine.canTransition(to);
+    }
+
+    go(to: keyof G, options?: GoOptions): keyof G {
+        return this.machine.go(to, options);
+    }
+
+    send(event: EventEnum, payload?: any, options?: GoOptions): keyof G {
+        return this.machine.send(event, payload, options);
+    }
+
+    reset(): void {
+        this.machine.reset();
+    }
+
+    subscribe(listener: (state: TSMState<keyof G, Context>) => void): () => void {
+        return this.machine.subscribe(listener);
+    }
+
+    on(to: keyof G, callback: TypedCallback<G, Context>): this {
+        this.machine.on(to, callback);
+        return this;
+    }
+
+    onExit(from: keyof G, callback: TypedCallback<G, Context>): this {
+        this.machine.onExit(from, callback);
+        return this;
+    }
+
+    onTransition(from: keyof G, to: keyof G, callback: TypedCallback<G, Context>): this {
+        this.machine.onTransition(from, to, callback);
+        return this;
+    }
+
+    setTransitionGuard(from: keyof G, to: keyof G, guard: TransitionGuard<keyof G, Context>): this {
+        this.machine.setTransitionGuard(from, to, guard);
+        return this;
+    }
+
+    setStateTimeout(state: keyof G, options: StateTimeoutOptions<keyof G, Context>): this {
+        this.machine.setStateTimeout(state, options);
+        return this;
+    }
+}